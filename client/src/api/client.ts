@@ -3,6 +3,9 @@ import type {
   IndexStats,
   CrawlStatus,
   CrawlTriggerResponse,
+  CrawlRun,
+  CrawlRunSummary,
+  CrawlStreamEvent,
 } from '@/types'
 
 const BASE_URL = (import.meta.env.VITE_API_URL as string | undefined) ?? window.location.origin;
@@ -39,6 +42,31 @@ export function triggerCrawl(): Promise<CrawlTriggerResponse> {
   return request<CrawlTriggerResponse>('/api/crawler/trigger', { method: 'POST' })
 }
 
+export function cancelCrawl(): Promise<CrawlTriggerResponse> {
+  return request<CrawlTriggerResponse>('/api/crawler/cancel', { method: 'POST' })
+}
+
 export function getCrawlStatus(): Promise<CrawlStatus> {
   return request<CrawlStatus>('/api/crawler/status')
 }
+
+/**
+ * Subscribes to live crawl progress (Server-Sent Events). The browser
+ * reconnects automatically; the first message after connecting is a snapshot
+ * of the current state. Returns a function that closes the stream.
+ */
+export function subscribeToCrawlEvents(onEvent: (event: CrawlStreamEvent) => void): () => void {
+  const source = new EventSource(`${BASE_URL}/api/crawler/events`)
+  source.onmessage = (message: MessageEvent<string>) => {
+    onEvent(JSON.parse(message.data) as CrawlStreamEvent)
+  }
+  return () => source.close()
+}
+
+export function getCrawlRuns(limit?: number): Promise<{ runs: CrawlRunSummary[] }> {
+  return request<{ runs: CrawlRunSummary[] }>(`/api/crawler/runs${limit ? `?limit=${limit}` : ''}`)
+}
+
+export function getCrawlRun(id: string): Promise<CrawlRun> {
+  return request<CrawlRun>(`/api/crawler/runs/${encodeURIComponent(id)}`)
+}
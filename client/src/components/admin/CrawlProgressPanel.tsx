@@ -0,0 +1,106 @@
+import { CheckCircle2, Trash2, XCircle } from 'lucide-react'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import type { CrawlFileEvent, CrawlProgress } from '@/types'
+
+interface Props {
+  progress: CrawlProgress | null
+  files: CrawlFileEvent[]
+}
+
+function formatEta(ms?: number) {
+  if (ms === undefined) return 'estimating…'
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s left`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s left`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m left`
+}
+
+const fileIcon = {
+  processed: <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-green-600" />,
+  failed: <XCircle className="h-3.5 w-3.5 shrink-0 text-destructive" />,
+  deleted: <Trash2 className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />,
+}
+
+export function CrawlProgressPanel({ progress, files }: Props) {
+  const handled = progress
+    ? progress.documentsProcessed + progress.documentsUnchanged + progress.documentsSkipped
+    : 0
+  const percent = progress && progress.documentsDiscovered > 0
+    ? (handled / progress.documentsDiscovered) * 100
+    : 0
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between text-xs text-muted-foreground tabular-nums">
+          <span>
+            {handled.toLocaleString()} / {(progress?.documentsDiscovered ?? 0).toLocaleString()} documents
+          </span>
+          <span>{progress ? formatEta(progress.etaMs) : 'starting…'}</span>
+        </div>
+        <Progress value={percent} />
+      </div>
+
+      {progress && (
+        <dl className="grid grid-cols-3 gap-2 text-xs">
+          <div>
+            <dt className="text-muted-foreground">Indexed</dt>
+            <dd className="font-medium tabular-nums">{progress.documentsProcessed.toLocaleString()}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Unchanged</dt>
+            <dd className="font-medium tabular-nums">{progress.documentsUnchanged.toLocaleString()}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Failed</dt>
+            <dd className="font-medium tabular-nums">{progress.documentsSkipped.toLocaleString()}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Deleted</dt>
+            <dd className="font-medium tabular-nums">{progress.documentsDeleted.toLocaleString()}</dd>
+          </div>
+          <div className="col-span-2">
+            <dt className="text-muted-foreground">Chunks embedded</dt>
+            <dd className="font-medium tabular-nums">{progress.chunksEmbedded.toLocaleString()}</dd>
+          </div>
+        </dl>
+      )}
+
+      {progress?.currentFile && (
+        <p className="truncate text-xs text-muted-foreground" title={progress.currentFile}>
+          Current: <span className="text-foreground">{progress.currentFile}</span>
+        </p>
+      )}
+
+      {files.length > 0 && (
+        <ScrollArea className="h-40 rounded-md border">
+          {/* Newest first, so the latest file is always in view */}
+          <ul className="space-y-1 p-2 text-xs">
+            {[...files].reverse().map((file, idx) => (
+              <li key={`${file.timestamp}-${idx}`} className="flex items-start gap-1.5">
+                {fileIcon[file.status]}
+                <span className="min-w-0 flex-1">
+                  <span className="break-all">{file.filename}</span>
+                  {file.chunks !== undefined && (
+                    <span className="text-muted-foreground"> · {file.chunks} chunks</span>
+                  )}
+                  {file.boilerplateRemoved !== undefined && (
+                    <span className="text-muted-foreground">
+                      {' '}· {file.boilerplateRemoved.toLocaleString()} characters of boilerplate removed
+                    </span>
+                  )}
+                  {file.duplicateOf && (
+                    <span className="block text-muted-foreground break-all">Copy of {file.duplicateOf}</span>
+                  )}
+                  {file.error && <span className="block text-destructive break-words">{file.error}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      )}
+    </div>
+  )
+}
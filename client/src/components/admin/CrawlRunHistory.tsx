@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from 'react'
+import { AlertCircle, History, RefreshCw } from 'lucide-react'
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { getCrawlRun, getCrawlRuns } from '@/api/client'
+import type { CrawlRun, CrawlRunStatus, CrawlRunSummary } from '@/types'
+
+interface Props {
+  /** Bumped by the parent to reload the list, e.g. when a crawl finishes */
+  refreshKey: number
+}
+
+const statusVariant: Record<CrawlRunStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'default',
+  completed: 'secondary',
+  failed: 'destructive',
+  cancelled: 'outline',
+  interrupted: 'outline',
+}
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return '—'
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+export function CrawlRunHistory({ refreshKey }: Props) {
+  const [runs, setRuns] = useState<CrawlRunSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [details, setDetails] = useState<Record<string, CrawlRun>>({})
+
+  const loadRuns = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await getCrawlRuns(20)
+      setRuns(data.runs)
+      setDetails({})
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load crawl history.')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadRuns()
+  }, [loadRuns, refreshKey])
+
+  // Error lists can be long, so they are only fetched when a run is expanded
+  const handleExpand = (id: string) => {
+    if (!id || details[id]) return
+    getCrawlRun(id)
+      .then((run) => setDetails((prev) => ({ ...prev, [id]: run })))
+      .catch(() => {})
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="h-4 w-4" />
+            Crawl History
+          </CardTitle>
+          <CardDescription className="mt-1">
+            Recent crawl runs and the documents that failed in each
+          </CardDescription>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => void loadRuns()}
+          disabled={loading}
+          title="Refresh history"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : loading && runs.length === 0 ? (
+          <div className="space-y-3">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-3/4" />
+          </div>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No crawls have run yet.</p>
+        ) : (
+          <Accordion type="single" collapsible className="w-full" onValueChange={handleExpand}>
+            {runs.map((run) => (
+              <AccordionItem key={run.id} value={run.id}>
+                <AccordionTrigger className="py-3 hover:no-underline">
+                  <span className="flex flex-1 flex-wrap items-center gap-2 pr-2 text-left">
+                    <Badge variant={statusVariant[run.status]}>{run.status}</Badge>
+                    <span className="font-normal">{new Date(run.startTime).toLocaleString()}</span>
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {run.trigger}
+                      {run.full ? ' · full' : ''} · {formatDuration(run.duration)}
+                    </span>
+                    {run.errorCount > 0 && (
+                      <Badge variant="destructive" className="ml-auto tabular-nums">
+                        {run.errorCount} error{run.errorCount !== 1 ? 's' : ''}
+                      </Badge>
+                    )}
+                  </span>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-3">
+                  <p className="text-xs text-muted-foreground tabular-nums">
+                    {run.documentsProcessed} indexed · {run.documentsUnchanged} unchanged ·{' '}
+                    {run.documentsDeleted} deleted · {run.documentsSkipped} failed
+                  </p>
+                  {run.error && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{run.error}</AlertDescription>
+                    </Alert>
+                  )}
+                  {run.errorCount > 0 &&
+                    (details[run.id] ? (
+                      <ul className="space-y-2">
+                        {details[run.id].errors.map((err, idx) => (
+                          <li key={idx} className="rounded-md border bg-background p-2 text-xs">
+                            <p className="font-medium break-all">{err.filename}</p>
+                            <p className="text-muted-foreground break-words">{err.error}</p>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <Skeleton className="h-4 w-2/3" />
+                    ))}
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,41 @@
+import { CalendarClock } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import type { ScheduledCrawl } from '@/types'
+
+interface Props {
+  schedule: ScheduledCrawl[]
+}
+
+export function CrawlSchedule({ schedule }: Props) {
+  return (
+    <div className="space-y-2">
+      <p className="flex items-center gap-1.5 text-sm font-medium">
+        <CalendarClock className="h-3.5 w-3.5" />
+        Schedule
+      </p>
+      <ul className="space-y-1.5 text-xs">
+        {schedule.map((job) => (
+          <li
+            key={`${job.sourceId}-${job.mode}`}
+            className="flex flex-wrap items-center justify-between gap-x-3 gap-y-1 rounded-md border px-3 py-2"
+          >
+            <span className="flex items-center gap-1.5">
+              <span className="font-medium">{job.sourceId}</span>
+              <Badge variant="outline">{job.mode}</Badge>
+              <code className="text-muted-foreground">{job.expression}</code>
+            </span>
+            <span className="text-muted-foreground">
+              Next {new Date(job.nextRun).toLocaleString()}
+              {job.lastRun && (
+                <>
+                  {' · '}Last {new Date(job.lastRun).toLocaleString()}
+                  {job.lastStatus && ` (${job.lastStatus})`}
+                </>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -7,6 +7,26 @@ interface Props {
   sources: SourceDocument[]
 }
 
+function pageLabel({ pageStart, pageEnd }: SourceDocument): string | null {
+  if (!pageStart) return null
+  return pageEnd && pageEnd !== pageStart ? `pp. ${pageStart}–${pageEnd}` : `p. ${pageStart}`
+}
+
+// Last path segment, e.g. "Policy v3 final (1).docx"
+function fileName(url: string): string {
+  const name = url.split('/').filter(Boolean).pop() ?? url
+  try {
+    return decodeURIComponent(name)
+  } catch {
+    return name
+  }
+}
+
+// PDF viewers open the document at the page given in the URL fragment
+function sourceHref(source: SourceDocument): string {
+  return source.pageStart ? `${source.url}#page=${source.pageStart}` : source.url
+}
+
 export function SourcesAccordion({ sources }: Props) {
   return (
     <div className="w-full">
@@ -24,21 +44,56 @@ export function SourcesAccordion({ sources }: Props) {
                 >
                   <div className="flex items-start justify-between gap-2">
                     <a
-                      href={source.url}
+                      href={sourceHref(source)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="inline-flex items-center gap-1 font-medium text-primary hover:underline"
                     >
-                      {source.filename}
+                      {source.title ?? source.filename}
+                      {pageLabel(source) && (
+                        <span className="font-normal text-muted-foreground">, {pageLabel(source)}</span>
+                      )}
                       <ExternalLink className="h-3 w-3 shrink-0" />
                     </a>
                     <Badge variant="secondary" className="shrink-0 tabular-nums">
                       {(source.score * 100).toFixed(0)}%
                     </Badge>
                   </div>
-                  <p className="text-muted-foreground line-clamp-3 leading-relaxed">
-                    {source.content}
-                  </p>
+                  {(source.author || source.headingPath || source.ocrConfidence !== undefined) && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      {source.ocrConfidence !== undefined && (
+                        // Text recognised from a scan may contain misread words
+                        <Badge variant="outline" className="shrink-0 tabular-nums" title="Text recognised by OCR">
+                          OCR {source.ocrConfidence}%
+                        </Badge>
+                      )}
+                      {source.author && <span className="shrink-0">{source.author}</span>}
+                      {source.headingPath && <p className="truncate">{source.headingPath}</p>}
+                    </div>
+                  )}
+                  {source.table ? (
+                    // Keep the columns of Markdown tables aligned instead of reflowing them
+                    <pre className="max-h-40 overflow-auto rounded bg-muted p-2 font-mono text-[11px] leading-snug text-muted-foreground">
+                      {source.content}
+                    </pre>
+                  ) : (
+                    <p className="text-muted-foreground line-clamp-3 leading-relaxed">
+                      {source.content}
+                    </p>
+                  )}
+                  {source.alternateUrls && source.alternateUrls.length > 0 && (
+                    <p className="text-muted-foreground">
+                      Also at:{' '}
+                      {source.alternateUrls.map((url, i) => (
+                        <span key={url}>
+                          {i > 0 && ', '}
+                          <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline" title={url}>
+                            {fileName(url)}
+                          </a>
+                        </span>
+                      ))}
+                    </p>
+                  )}
                 </div>
               ))}
             </div>
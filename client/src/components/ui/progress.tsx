@@ -0,0 +1,28 @@
+import type { HTMLAttributes } from 'react'
+import { cn } from '@/lib/utils'
+
+interface ProgressProps extends HTMLAttributes<HTMLDivElement> {
+  /** 0–100 */
+  value: number
+}
+
+function Progress({ className, value, ...props }: ProgressProps) {
+  const clamped = Math.min(100, Math.max(0, value))
+  return (
+    <div
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(clamped)}
+      className={cn('relative h-2 w-full overflow-hidden rounded-full bg-primary/20', className)}
+      {...props}
+    >
+      <div
+        className="h-full bg-primary transition-all"
+        style={{ width: `${clamped}%` }}
+      />
+    </div>
+  )
+}
+
+export { Progress }
@@ -7,6 +7,7 @@ import {
   HardDrive,
   AlertCircle,
   Play,
+  Square,
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -14,8 +15,20 @@ import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
-import { getStats, triggerCrawl, getCrawlStatus } from '@/api/client'
-import type { IndexStats } from '@/types'
+import { CrawlRunHistory } from '@/components/admin/CrawlRunHistory'
+import { CrawlProgressPanel } from '@/components/admin/CrawlProgressPanel'
+import { CrawlSchedule } from '@/components/admin/CrawlSchedule'
+import {
+  getStats,
+  triggerCrawl,
+  cancelCrawl,
+  getCrawlStatus,
+  subscribeToCrawlEvents,
+} from '@/api/client'
+import type { CrawlFileEvent, CrawlProgress, IndexStats, ScheduledCrawl } from '@/types'
+
+// Per-file log entries kept on the page
+const MAX_FILE_EVENTS = 200
 
 function formatDate(dateStr: string) {
   return new Date(dateStr).toLocaleString()
@@ -33,8 +46,13 @@ export default function AdminPage() {
   const [statsError, setStatsError] = useState<string | null>(null)
 
   const [crawlInProgress, setCrawlInProgress] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
   const [crawlMessage, setCrawlMessage] = useState<string | null>(null)
   const [triggerError, setTriggerError] = useState<string | null>(null)
+  const [historyKey, setHistoryKey] = useState(0)
+  const [progress, setProgress] = useState<CrawlProgress | null>(null)
+  const [fileEvents, setFileEvents] = useState<CrawlFileEvent[]>([])
+  const [schedule, setSchedule] = useState<ScheduledCrawl[]>([])
 
   const loadStats = useCallback(async () => {
     setStatsLoading(true)
@@ -49,31 +67,55 @@ export default function AdminPage() {
     }
   }, [])
 
-  // Poll crawl status while running
-  useEffect(() => {
-    if (!crawlInProgress) return
-    const interval = setInterval(() => {
-      getCrawlStatus()
-        .then((s) => {
-          if (!s.inProgress) {
-            setCrawlInProgress(false)
-            void loadStats()
-          }
-        })
-        .catch(() => {
-          // silently ignore polling errors
-        })
-    }, 2000)
-    return () => clearInterval(interval)
-  }, [crawlInProgress, loadStats])
+  const loadSchedule = useCallback(() => {
+    getCrawlStatus()
+      .then((s) => setSchedule(s.schedule))
+      .catch(() => {})
+  }, [])
 
   // Initial load
   useEffect(() => {
     void loadStats()
-    getCrawlStatus()
-      .then((s) => setCrawlInProgress(s.inProgress))
-      .catch(() => {})
-  }, [loadStats])
+    loadSchedule()
+  }, [loadStats, loadSchedule])
+
+  // Live crawl progress from the API (Server-Sent Events)
+  useEffect(() => {
+    return subscribeToCrawlEvents((event) => {
+      switch (event.type) {
+        case 'snapshot':
+          setCrawlInProgress(event.inProgress)
+          setCancelling(event.cancelling)
+          setProgress(event.progress)
+          setFileEvents(event.recentFiles)
+          break
+        case 'started':
+          setCrawlInProgress(true)
+          setCancelling(false)
+          setProgress(null)
+          setFileEvents([])
+          setHistoryKey((key) => key + 1)
+          break
+        case 'cancelling':
+          setCancelling(true)
+          break
+        case 'progress':
+          setProgress(event.progress)
+          break
+        case 'file':
+          setFileEvents((prev) => [...prev, event].slice(-MAX_FILE_EVENTS))
+          break
+        case 'finished':
+          setCrawlInProgress(false)
+          setCancelling(false)
+          if (event.cancelled) setCrawlMessage('Crawl cancelled.')
+          setHistoryKey((key) => key + 1)
+          void loadStats()
+          loadSchedule()
+          break
+      }
+    })
+  }, [loadStats, loadSchedule])
 
   const handleTriggerCrawl = async () => {
     setTriggerError(null)
@@ -87,6 +129,17 @@ export default function AdminPage() {
     }
   }
 
+  const handleCancelCrawl = async () => {
+    setTriggerError(null)
+    try {
+      const res = await cancelCrawl()
+      setCrawlMessage(res.message)
+      setCancelling(true)
+    } catch (err) {
+      setTriggerError(err instanceof Error ? err.message : 'Failed to cancel crawl.')
+    }
+  }
+
   return (
     <div className="mx-auto max-w-4xl px-4 py-10 space-y-8">
       <div>
@@ -192,7 +245,7 @@ export default function AdminPage() {
                 {crawlInProgress ? (
                   <span className="flex items-center gap-1.5">
                     <span className="inline-block h-1.5 w-1.5 animate-pulse rounded-full bg-current" />
-                    Running
+                    {cancelling ? 'Cancelling' : 'Running'}
                   </span>
                 ) : (
                   'Idle'
@@ -200,6 +253,10 @@ export default function AdminPage() {
               </Badge>
             </div>
 
+            {(crawlInProgress || progress) && (
+              <CrawlProgressPanel progress={progress} files={fileEvents} />
+            )}
+
             {crawlMessage && (
               <Alert>
                 <AlertDescription>{crawlMessage}</AlertDescription>
@@ -222,13 +279,31 @@ export default function AdminPage() {
               {crawlInProgress ? 'Crawl in Progress…' : 'Trigger Crawl'}
             </Button>
 
+            {crawlInProgress && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => void handleCancelCrawl()}
+                disabled={cancelling}
+              >
+                <Square className="mr-2 h-4 w-4" />
+                {cancelling ? 'Cancelling…' : 'Cancel Crawl'}
+              </Button>
+            )}
+
+            {schedule.length > 0 && <CrawlSchedule schedule={schedule} />}
+
             <p className="text-xs text-muted-foreground">
-              Starts a full re-crawl of all SharePoint documents and rebuilds the vector index.
-              The status badge updates automatically every 2 seconds.
+              Crawls SharePoint and re-indexes new or changed documents; removed documents are
+              deleted from the vector index.
+              Progress is streamed live while a crawl runs. Cancelling stops the crawl after the
+              documents in progress; everything indexed so far is kept.
             </p>
           </CardContent>
         </Card>
       </div>
+
+      <CrawlRunHistory refreshKey={historyKey} />
     </div>
   )
 }
@@ -1,11 +1,28 @@
 export interface QueryRequest {
   query: string
   topK?: number
+  /** Column metadata filter, see the server README */
+  filter?: Record<string, unknown>
 }
 
 export interface SourceDocument {
   filename: string
+  /** Page title for site pages, or the title stored in the document */
+  title?: string
+  /** Author stored in the document (Word 97-2003 and RTF) */
+  author?: string
   url: string
+  /** Pages the passage spans, for PDFs */
+  pageStart?: number
+  pageEnd?: number
+  /** Section the passage is from, e.g. "Travel Policy > Reimbursement" */
+  headingPath?: string
+  /** The passage is a Markdown table */
+  table?: boolean
+  /** OCR confidence (0-100), when the passage was recognised from a scan or image */
+  ocrConfidence?: number
+  /** Near-duplicate copies of the document in other folders or libraries */
+  alternateUrls?: string[]
   content: string
   score: number
 }
@@ -22,11 +39,98 @@ export interface IndexStats {
   indexSize: number
 }
 
+export interface CrawlProgress {
+  runId: string
+  documentsDiscovered: number
+  documentsProcessed: number
+  documentsUnchanged: number
+  documentsSkipped: number
+  documentsDeleted: number
+  chunksEmbedded: number
+  currentFile?: string
+  etaMs?: number
+}
+
+export interface CrawlFileEvent {
+  type: 'file'
+  filename: string
+  status: 'processed' | 'failed' | 'deleted'
+  chunks?: number
+  boilerplateRemoved?: number
+  /** URL of the document a near-duplicate was grouped under */
+  duplicateOf?: string
+  error?: string
+  timestamp: string
+}
+
+export type CrawlStreamEvent =
+  | {
+      type: 'snapshot'
+      inProgress: boolean
+      cancelling: boolean
+      progress: CrawlProgress | null
+      recentFiles: CrawlFileEvent[]
+    }
+  | {
+      type: 'started'
+      startedAt: string
+      trigger: CrawlTrigger
+      full?: boolean
+      sources?: string[]
+    }
+  | { type: 'cancelling' }
+  | { type: 'progress'; progress: CrawlProgress }
+  | CrawlFileEvent
+  | { type: 'finished'; success: boolean; cancelled: boolean; exitCode: number | null; finishedAt: string }
+
+export interface ScheduledCrawl {
+  sourceId: string
+  mode: 'incremental' | 'full'
+  expression: string
+  nextRun: string
+  lastRun?: string
+  lastStatus?: CrawlRunStatus
+}
+
 export interface CrawlStatus {
   inProgress: boolean
+  cancelling: boolean
+  progress: CrawlProgress | null
+  schedule: ScheduledCrawl[]
 }
 
 export interface CrawlTriggerResponse {
   status: string
   message: string
 }
+
+export type CrawlTrigger = 'manual' | 'schedule' | 'startup' | 'cli'
+
+export type CrawlRunStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted'
+
+export interface CrawlError {
+  filename: string
+  error: string
+  timestamp: string
+}
+
+export interface CrawlRunSummary {
+  id: string
+  trigger: CrawlTrigger
+  status: CrawlRunStatus
+  full: boolean
+  sources?: string[]
+  documentsProcessed: number
+  documentsSkipped: number
+  documentsUnchanged: number
+  documentsDeleted: number
+  startTime: string
+  endTime?: string
+  duration?: number
+  error?: string
+  errorCount: number
+}
+
+export interface CrawlRun extends Omit<CrawlRunSummary, 'errorCount'> {
+  errors: CrawlError[]
+}
@@ -1,17 +1,6 @@
 #!/bin/sh
 set -e
 
-# Start crawler in background (one-off/indexer)
-node dist/crawler/index.js &
-PID_CRAWLER=$!
-
-term() {
-  kill -TERM "$PID_CRAWLER" 2>/dev/null || true
-  wait "$PID_CRAWLER" 2>/dev/null || true
-  exit 0
-}
-
-trap term INT TERM
-
-# Run the API in the foreground so the container keeps running while the API is up.
+# Crawls are started by the API's scheduler (including the one on startup,
+# see SCHEDULER_RUN_ON_STARTUP), so the API is the only process.
 exec node dist/api/server.js
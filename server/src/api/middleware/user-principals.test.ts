@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { logger } from '../../shared/logger';
+import { AppError } from './error-handler';
+import { resolveUserPrincipals } from './user-principals';
+
+const mockConfig = { security: { trimming: true } };
+
+// Getters: jest.mock() factories are hoisted above the declarations
+jest.mock('../../shared/config', () => ({ get config() { return mockConfig; } }));
+jest.mock('../../shared/logger', () => ({ logger: { warn: jest.fn() } }));
+
+const GROUP_ID = '3F2504E0-4F89-11D3-9A0C-0305E82C3301';
+const ISSUER = 'https://sts.windows.net/72f988bf-86f1-41af-91ab-2d7cd011db47/';
+
+function clientPrincipal(claims: { typ: string; val: string }[]): string {
+  return Buffer.from(JSON.stringify({ claims })).toString('base64');
+}
+
+/** Runs the middleware on a request with these headers */
+function resolve(headers: Record<string, string>): { req: Request; error: unknown } {
+  const req = { header: (name: string) => headers[name.toLowerCase()] } as unknown as Request;
+  let error: unknown;
+  resolveUserPrincipals(req, {} as Response, (err?: unknown) => {
+    error = err;
+  });
+  return { req, error };
+}
+
+describe('resolveUserPrincipals', () => {
+  beforeEach(() => {
+    mockConfig.security.trimming = true;
+    jest.clearAllMocks();
+  });
+
+  it('does nothing without security trimming', () => {
+    mockConfig.security.trimming = false;
+    const { req, error } = resolve({});
+
+    expect(error).toBeUndefined();
+    expect(req.userPrincipals).toBeUndefined();
+  });
+
+  it('reads the user and group claims', () => {
+    const { req, error } = resolve({
+      'x-ms-client-principal': clientPrincipal([
+        { typ: 'iss', val: ISSUER },
+        { typ: 'preferred_username', val: 'Jane.Doe@contoso.com' },
+        { typ: 'groups', val: GROUP_ID },
+        { typ: 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups', val: 'a1b2c3d4-0000-0000-0000-000000000000' },
+      ]),
+    });
+
+    expect(error).toBeUndefined();
+    expect(req.userPrincipals).toEqual([
+      'everyone',
+      `group:${GROUP_ID.toLowerCase()}`,
+      'group:a1b2c3d4-0000-0000-0000-000000000000',
+      'everyone-except-external',
+      'user:jane.doe@contoso.com',
+    ]);
+  });
+
+  it('prefers the X-MS-CLIENT-PRINCIPAL-NAME header for the user', () => {
+    const { req } = resolve({
+      'x-ms-client-principal-name': 'jane@contoso.com',
+      'x-ms-client-principal': clientPrincipal([{ typ: 'upn', val: 'other@contoso.com' }]),
+    });
+
+    expect(req.userPrincipals).toContain('user:jane@contoso.com');
+    expect(req.userPrincipals).not.toContain('user:other@contoso.com');
+  });
+
+  it('rejects a request without a user with a 401', () => {
+    const { req, error } = resolve({
+      'x-ms-client-principal': clientPrincipal([{ typ: 'groups', val: GROUP_ID }]),
+    });
+
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).statusCode).toBe(401);
+    expect(req.userPrincipals).toBeUndefined();
+  });
+
+  it('ignores a malformed X-MS-CLIENT-PRINCIPAL header', () => {
+    const { req, error } = resolve({
+      'x-ms-client-principal-name': 'jane@contoso.com',
+      'x-ms-client-principal': Buffer.from('{"claims":[').toString('base64'),
+    });
+
+    expect(error).toBeUndefined();
+    expect(req.userPrincipals).toEqual(['everyone', 'everyone-except-external', 'user:jane@contoso.com']);
+    expect(logger.warn).toHaveBeenCalledWith('Ignoring malformed X-MS-CLIENT-PRINCIPAL header', expect.anything());
+  });
+
+  it('rejects a malformed header without a user name with a 401', () => {
+    const { error } = resolve({ 'x-ms-client-principal': 'not base64 json' });
+
+    expect((error as AppError).statusCode).toBe(401);
+  });
+
+  it.each([
+    ['an identity provider other than the issuer', [{ typ: 'iss', val: ISSUER }, { typ: 'idp', val: 'live.com' }]],
+    ['the acct claim', [{ typ: 'acct', val: '1' }]],
+    ['an #EXT# user name', [{ typ: 'upn', val: 'bob_fabrikam.com#EXT#@contoso.onmicrosoft.com' }]],
+  ])('leaves guests recognized by %s out of everyone-except-external', (_, claims) => {
+    const { req } = resolve({
+      'x-ms-client-principal': clientPrincipal([{ typ: 'preferred_username', val: 'bob@fabrikam.com' }, ...claims]),
+    });
+
+    expect(req.userPrincipals).toContain('everyone');
+    expect(req.userPrincipals).not.toContain('everyone-except-external');
+  });
+
+  it('treats a member whose identity provider is the issuer as a member', () => {
+    const { req } = resolve({
+      'x-ms-client-principal': clientPrincipal([
+        { typ: 'iss', val: ISSUER },
+        { typ: 'http://schemas.microsoft.com/identity/claims/identityprovider', val: ISSUER },
+        { typ: 'upn', val: 'jane@contoso.com' },
+      ]),
+    });
+
+    expect(req.userPrincipals).toContain('everyone-except-external');
+  });
+
+  it('logs a group overage claim', () => {
+    const { req } = resolve({
+      'x-ms-client-principal': clientPrincipal([
+        { typ: 'upn', val: 'jane@contoso.com' },
+        { typ: '_claim_names', val: '{"groups":"src1"}' },
+      ]),
+    });
+
+    expect(req.userPrincipals).toEqual(['everyone', 'everyone-except-external', 'user:jane@contoso.com']);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'jane@contoso.com is in too many groups for the groups claim; group-based access is not applied'
+    );
+  });
+});
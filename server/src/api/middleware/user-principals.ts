@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../../shared/config';
+import { logger } from '../../shared/logger';
+import { AppError } from './error-handler';
+
+interface ClientPrincipal {
+  claims?: { typ: string; val: string }[];
+}
+
+const USER_CLAIMS = [
+  'preferred_username',
+  'upn',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/upn',
+  'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+];
+
+const GROUP_CLAIMS = ['groups', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups'];
+
+const IDENTITY_PROVIDER_CLAIMS = ['idp', 'http://schemas.microsoft.com/identity/claims/identityprovider'];
+
+/**
+ * Guests (B2B users) sign in through their home tenant or a social account,
+ * so their identity provider differs from the issuer. The optional `acct`
+ * claim and the `#EXT#` in a guest's user name are checked too.
+ */
+function isGuest(claims: Map<string, string>, userNames: string[]): boolean {
+  const issuer = claims.get('iss');
+  const identityProvider = claims.get('idp');
+  return claims.get('acct') === '1'
+    || (identityProvider !== undefined && identityProvider !== issuer)
+    || userNames.some((name) => name.toLowerCase().includes('#ext#'));
+}
+
+/**
+ * Resolves the caller's identity from the headers set by App Service / Container
+ * Apps authentication (Easy Auth): `X-MS-CLIENT-PRINCIPAL` carries the token
+ * claims, `X-MS-CLIENT-PRINCIPAL-NAME` the user name. These headers must only be
+ * trusted when the API is reachable exclusively through that front end.
+ *
+ * Only enforced when security trimming is enabled.
+ *
+ * Tokens of users in more than 200 groups carry a group overage claim
+ * (`_claim_names`) instead of the `groups` claim; those users only match
+ * documents shared with them directly or with everyone, which is logged.
+ */
+export const resolveUserPrincipals = (req: Request, _res: Response, next: NextFunction) => {
+  if (!config.security.trimming) {
+    return next();
+  }
+
+  const principals = new Set<string>(['everyone']);
+  const claims = new Map<string, string>();
+  const userNames: string[] = [];
+  let userName = req.header('x-ms-client-principal-name');
+  let groupOverage = false;
+
+  const encoded = req.header('x-ms-client-principal');
+  if (encoded) {
+    try {
+      const principal = JSON.parse(Buffer.from(encoded, 'base64').toString('utf-8')) as ClientPrincipal;
+      for (const claim of principal.claims ?? []) {
+        if (USER_CLAIMS.includes(claim.typ)) {
+          userName ??= claim.val;
+          userNames.push(claim.val);
+        } else if (GROUP_CLAIMS.includes(claim.typ)) {
+          principals.add(`group:${claim.val.toLowerCase()}`);
+        } else if (IDENTITY_PROVIDER_CLAIMS.includes(claim.typ)) {
+          claims.set('idp', claim.val);
+        } else if (claim.typ === 'iss' || claim.typ === 'acct') {
+          claims.set(claim.typ, claim.val);
+        } else if (claim.typ === '_claim_names' && claim.val.includes('"groups"')) {
+          groupOverage = true;
+        }
+      }
+    } catch (error) {
+      logger.warn('Ignoring malformed X-MS-CLIENT-PRINCIPAL header', { error });
+    }
+  }
+
+  if (!userName) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  if (groupOverage) {
+    logger.warn(`${userName} is in too many groups for the groups claim; group-based access is not applied`);
+  }
+  if (!isGuest(claims, [userName, ...userNames])) {
+    principals.add('everyone-except-external');
+  }
+
+  principals.add(`user:${userName.toLowerCase()}`);
+  req.userPrincipals = Array.from(principals);
+  next();
+};
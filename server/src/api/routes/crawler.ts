@@ -1,83 +1,124 @@
 import { Router, Request, Response } from 'express';
-import { spawn } from 'child_process';
+import { CrawlManifest } from '../../crawler/manifest';
 import { logger } from '../../shared/logger';
+import { CrawlRunHistory } from '../../shared/run-history';
 import { AppError, asyncHandler } from '../middleware/error-handler';
+import { CrawlManager, CrawlSnapshot, CrawlStreamEvent } from '../services/crawl-manager';
+import { CrawlScheduler } from '../services/crawl-scheduler';
 
-export function createCrawlerRouter(): Router {
+// Keeps proxies and load balancers from closing an idle event stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export function createCrawlerRouter(crawlManager: CrawlManager, crawlScheduler: CrawlScheduler): Router {
   const router = Router();
 
-  let crawlInProgress = false;
+  const history = new CrawlRunHistory();
 
   router.post(
     '/trigger',
     asyncHandler(async (_req: Request, res: Response) => {
-      if (crawlInProgress) {
+      if (crawlManager.inProgress) {
         throw new AppError('A crawl is already in progress', 409);
       }
 
       logger.info('Manual crawl triggered');
 
-      crawlInProgress = true;
+      await crawlManager.start({ trigger: 'manual' });
 
-      // Start crawler as a child process
-      const crawlerProcess = spawn('npm', ['run', 'container:crawler'], {
-        stdio: 'pipe',
-        shell: true,
+      // Return immediately with accepted status
+      res.status(202).json({
+        status: 'accepted',
+        message: 'Crawl started in background',
       });
+    })
+  );
 
-      let stdout = '';
-      let stderr = '';
+  router.post(
+    '/cancel',
+    asyncHandler(async (_req: Request, res: Response) => {
+      if (!crawlManager.inProgress) {
+        throw new AppError('No crawl is in progress', 409);
+      }
 
-      crawlerProcess.stdout.on('data', (data) => {
-        const text = data.toString();
-        stdout += text;
-        logger.debug('Crawler output', { output: text });
-      });
+      logger.info('Crawl cancellation requested');
 
-      crawlerProcess.stderr.on('data', (data) => {
-        const text = data.toString();
-        stderr += text;
-        // Log stderr as debug + error to capture full output and keep structured error
-        logger.debug('Crawler stderr', { stderr: text });
-        logger.error('Crawler error output', { error: text });
-      });
+      crawlManager.cancel();
 
-      crawlerProcess.on('error', (err: Error) => {
-        crawlInProgress = false;
-        logger.error('Failed to start crawler process', {
-          message: err?.message ?? 'Unknown error',
-          stack: err instanceof Error ? err.stack : 'No stack trace available',
-        });
+      res.status(202).json({
+        status: 'accepted',
+        message: 'Crawl will stop after the documents in progress',
       });
+    })
+  );
 
-      crawlerProcess.on('close', (code) => {
-        crawlInProgress = false;
-
-        if (code === 0) {
-          logger.info('Crawl completed successfully');
-        } else {
-          // Include captured stdout/stderr to aid troubleshooting
-          logger.error('Crawl failed', {
-            exitCode: code,
-            stdout: stdout || 'No stdout captured',
-            stderr: stderr || 'No stderr captured',
-          });
-        }
+  router.get(
+    '/status',
+    asyncHandler(async (_req: Request, res: Response) => {
+      const { inProgress, cancelling, progress } = crawlManager.getSnapshot();
+      res.json({
+        inProgress,
+        cancelling,
+        progress,
+        schedule: crawlScheduler.getStatus(),
       });
+    })
+  );
 
-      // Return immediately with accepted status
-      res.status(202).json({
-        status: 'accepted',
-        message: 'Crawl started in background',
+  // Server-Sent Events stream of crawl progress. New clients first receive a
+  // snapshot so a page opened mid-crawl shows the current state.
+  router.get('/events', (req: Request, res: Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (event: CrawlStreamEvent | ({ type: 'snapshot' } & CrawlSnapshot)) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    send({ type: 'snapshot', ...crawlManager.getSnapshot() });
+    crawlManager.on('event', send);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      crawlManager.off('event', send);
+    });
+  });
+
+  router.get(
+    '/runs',
+    asyncHandler(async (req: Request, res: Response) => {
+      const limit = Math.max(1, Math.min(100, Number(req.query.limit) || 20));
+      res.json({
+        runs: await history.list(limit),
       });
     })
   );
 
   router.get(
-    '/status',
+    '/runs/:id',
+    asyncHandler(async (req: Request, res: Response) => {
+      const run = await history.get(req.params.id);
+      if (!run) {
+        throw new AppError('Crawl run not found', 404);
+      }
+      res.json(run);
+    })
+  );
+
+  // Near-duplicate documents grouped by the last crawl, read from the manifest it shares with the API
+  router.get(
+    '/duplicates',
     asyncHandler(async (_req: Request, res: Response) => {
+      const manifest = new CrawlManifest();
+      await manifest.load();
+      const clusters = manifest.duplicateClusters();
       res.json({
-        inProgress: crawlInProgress,
+        clusters,
+        duplicates: clusters.reduce((sum, cluster) => sum + cluster.duplicates.length, 0),
       });
     })
   );
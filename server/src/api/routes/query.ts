@@ -5,14 +5,17 @@ import { config } from '../../shared/config';
 import { logger } from '../../shared/logger';
 import { QueryRequest, QueryResponse, SourceDocument } from '../../shared/types';
 import { AppError, asyncHandler } from '../middleware/error-handler';
+import { resolveUserPrincipals } from '../middleware/user-principals';
+import { buildQueryFilter } from '../services/metadata-filter';
 
 export function createQueryRouter(vectorStoreManager: VectorStore): Router {
   const router = Router();
 
   router.post(
     '/',
+    resolveUserPrincipals,
     asyncHandler(async (req: Request, res: Response) => {
-      const { query, topK = 4 } = req.body as QueryRequest;
+      const { query, topK = 4, filter: metadataFilter } = req.body as QueryRequest;
       // ensure topK is a number and sane
       const k = Math.max(1, Math.min(50, Number(topK) || 4));
 
@@ -20,13 +23,15 @@ export function createQueryRouter(vectorStoreManager: VectorStore): Router {
         throw new AppError('Query is required', 400);
       }
 
-      logger.info('Processing query', { query, topK });
+      const filter = buildQueryFilter(metadataFilter, req.userPrincipals);
+
+      logger.info('Processing query', { query, topK, filter: metadataFilter });
 
       try {
         const vectorStore = vectorStoreManager.getVectorStore();
 
         // Retrieve relevant documents directly
-        const retriever = vectorStore.asRetriever(k);
+        const retriever = vectorStore.asRetriever(k, filter);
         const relevantDocs = await retriever.getRelevantDocuments(query);
 
         // Normalize scores and only include documents with score >= 60%
@@ -43,7 +48,9 @@ export function createQueryRouter(vectorStoreManager: VectorStore): Router {
           .map((d: any) => d.doc);
 
         // Build context string for the LLM
-        const context = returned.map((d: any) => d.pageContent).join('\n\n');
+        const context = returned
+          .map((d: any) => (d.metadata?.headingPath ? `${d.metadata.headingPath}\n${d.pageContent}` : d.pageContent))
+          .join('\n\n');
 
         // Create LLM (Azure OpenAI deployment)
         const llm = new AzureChatOpenAI({
@@ -64,7 +71,16 @@ export function createQueryRouter(vectorStoreManager: VectorStore): Router {
 
         const sources: SourceDocument[] = returned.map((doc: any) => ({
           filename: doc.metadata?.filename,
+          title: doc.metadata?.title,
+          author: doc.metadata?.author,
           url: doc.metadata?.url,
+          pageStart: doc.metadata?.pageStart,
+          pageEnd: doc.metadata?.pageEnd,
+          headingPath: doc.metadata?.headingPath,
+          table: doc.metadata?.table,
+          ocrConfidence: doc.metadata?.ocrConfidence,
+          // Emptied rather than removed when the last copy goes away
+          alternateUrls: doc.metadata?.alternateUrls?.length ? doc.metadata.alternateUrls : undefined,
           content: doc.pageContent,
           score: Number(doc.metadata?.score) || 0,
         }));
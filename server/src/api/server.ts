@@ -10,15 +10,21 @@ import { errorHandler } from './middleware/error-handler';
 import { createQueryRouter } from './routes/query';
 import { createCrawlerRouter } from './routes/crawler';
 import { IndexWatcher } from './services/index-watcher';
+import { CrawlManager } from './services/crawl-manager';
+import { CrawlScheduler } from './services/crawl-scheduler';
 
 class Server {
   private app: Application;
   private vectorStoreManager: VectorStore;
   private indexWatcher: IndexWatcher | null = null;
+  private crawlManager: CrawlManager;
+  private crawlScheduler: CrawlScheduler;
 
   constructor() {
     this.app = express();
     this.vectorStoreManager = new VectorStore();
+    this.crawlManager = new CrawlManager();
+    this.crawlScheduler = new CrawlScheduler(this.crawlManager);
   }
 
   async initialize(): Promise<void> {
@@ -89,7 +95,7 @@ class Server {
 
     // API routes
     this.app.use('/api/query', createQueryRouter(this.vectorStoreManager));
-    this.app.use('/api/crawler', createCrawlerRouter());
+    this.app.use('/api/crawler', createCrawlerRouter(this.crawlManager, this.crawlScheduler));
 
     // Serve built client if present (single-container deployment)
     try {
@@ -128,9 +134,15 @@ class Server {
       logger.info(`  POST http://${host}:${port}/api/query - Submit RAG queries`);
       logger.info(`  GET  http://${host}:${port}/api/query/stats - Get index statistics`);
       logger.info(`  POST http://${host}:${port}/api/crawler/trigger - Trigger manual crawl`);
+      logger.info(`  POST http://${host}:${port}/api/crawler/cancel - Cancel running crawl`);
       logger.info(`  GET  http://${host}:${port}/api/crawler/status - Check crawl status`);
+      logger.info(`  GET  http://${host}:${port}/api/crawler/events - Stream crawl progress (SSE)`);
+      logger.info(`  GET  http://${host}:${port}/api/crawler/runs - List crawl runs`);
+      logger.info(`  GET  http://${host}:${port}/api/crawler/duplicates - List near-duplicate documents`);
       logger.info(`  GET  http://${host}:${port}/health - Health check`);
     });
+
+    await this.crawlScheduler.start();
   }
 
   async shutdown(): Promise<void> {
@@ -140,6 +152,10 @@ class Server {
       this.indexWatcher.stop();
     }
 
+    // Before the crawl is interrupted, so no queued schedule starts another one
+    this.crawlScheduler.stop();
+    await this.crawlManager.stop();
+
     logger.info('Server shutdown complete');
   }
 }
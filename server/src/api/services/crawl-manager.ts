@@ -0,0 +1,249 @@
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import path from 'path';
+import { logger } from '../../shared/logger';
+import { CrawlEvent, CrawlProgress, parseCrawlEvent } from '../../shared/crawl-events';
+import { CrawlLock } from '../../shared/crawl-lock';
+import { CrawlTrigger } from '../../shared/types';
+import { AppError } from '../middleware/error-handler';
+
+export interface CrawlStartOptions {
+  trigger: CrawlTrigger;
+  /** Enumerate everything instead of reading the change log */
+  full?: boolean;
+  /** Source ids to crawl (default: all) */
+  sources?: string[];
+}
+
+export type CrawlStreamEvent =
+  | CrawlEvent
+  | ({ type: 'started'; startedAt: string } & CrawlStartOptions)
+  | { type: 'cancelling' }
+  | { type: 'finished'; success: boolean; cancelled: boolean; exitCode: number | null; finishedAt: string };
+
+export interface CrawlSnapshot {
+  inProgress: boolean;
+  cancelling: boolean;
+  progress: CrawlProgress | null;
+  /** Most recent per-file events, oldest first */
+  recentFiles: Extract<CrawlEvent, { type: 'file' }>[];
+}
+
+// Per-file events replayed to clients that connect mid-crawl
+const RECENT_FILES_LIMIT = 200;
+
+// Same entry point as `npm run container:crawler`. Node is spawned directly
+// (not through npm and a shell) so SIGTERM reaches the crawler itself.
+const CRAWLER_ENTRY = path.join(process.cwd(), 'dist', 'crawler', 'index.js');
+
+// Time the crawler gets to finish its documents on shutdown before it is killed;
+// below the 30 second grace period of Kubernetes and Container Apps
+const STOP_TIMEOUT_MS = 25000;
+
+/**
+ * Runs the crawler as a child process and relays the progress events it
+ * writes to stdout. Emits `event` with a CrawlStreamEvent for every update.
+ */
+export class CrawlManager extends EventEmitter {
+  private process: ChildProcess | null = null;
+  private progress: CrawlProgress | null = null;
+  private recentFiles: CrawlSnapshot['recentFiles'] = [];
+  private cancelRequested = false;
+  private interruptRequested = false;
+  private lock = new CrawlLock();
+  // Between start() being called and the process being spawned
+  private starting = false;
+
+  constructor() {
+    super();
+    // One listener per open admin page
+    this.setMaxListeners(0);
+  }
+
+  get inProgress(): boolean {
+    return this.process !== null || this.starting;
+  }
+
+  getSnapshot(): CrawlSnapshot {
+    return {
+      inProgress: this.inProgress,
+      cancelling: this.inProgress && this.cancelRequested,
+      progress: this.progress,
+      recentFiles: this.recentFiles,
+    };
+  }
+
+  /**
+   * Starts a crawl in the background. Callers must check `inProgress` first.
+   * Throws a 409 AppError when a crawler this manager did not start is
+   * running, e.g. one left behind by an API process that died.
+   */
+  async start(options: CrawlStartOptions): Promise<void> {
+    if (this.inProgress) {
+      throw new Error('A crawl is already in progress');
+    }
+
+    this.starting = true;
+    try {
+      const holder = await this.lock.holder();
+      if (holder) {
+        throw new AppError(`Another crawler is running (pid ${holder.pid} on ${holder.hostname})`, 409);
+      }
+    } finally {
+      this.starting = false;
+    }
+
+    const args = [CRAWLER_ENTRY, 'crawl', `--trigger=${options.trigger}`, '--progress'];
+    if (options.full) args.push('--full');
+    if (options.sources?.length) args.push(`--source=${options.sources.join(',')}`);
+
+    this.progress = null;
+    this.recentFiles = [];
+    this.cancelRequested = false;
+    this.interruptRequested = false;
+
+    const crawlerProcess = spawn(process.execPath, args, {
+      stdio: 'pipe',
+      // Out of the terminal's process group: a Ctrl+C on the API would reach the
+      // crawler too, and the interrupt sent on shutdown would then be its second
+      // signal. A crawler outliving an API that died holds the crawl lock, so a
+      // restarted API does not start a second one next to it.
+      detached: true,
+    });
+    this.process = crawlerProcess;
+    this.publish({ type: 'started', startedAt: new Date().toISOString(), ...options });
+
+    let stdout = '';
+    let stderr = '';
+    let pending = '';
+
+    crawlerProcess.stdout?.on('data', (data) => {
+      // Events are line based, but a chunk can end halfway through a line
+      const lines = (pending + data.toString()).split('\n');
+      pending = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const event = parseCrawlEvent(line);
+        if (event) {
+          this.handleCrawlEvent(event);
+        } else if (line.trim()) {
+          stdout += `${line}\n`;
+          logger.debug('Crawler output', { output: line });
+        }
+      }
+    });
+
+    crawlerProcess.stderr?.on('data', (data) => {
+      const text = data.toString();
+      stderr += text;
+      // Log stderr as debug + error to capture full output and keep structured error
+      logger.debug('Crawler stderr', { stderr: text });
+      logger.error('Crawler error output', { error: text });
+    });
+
+    crawlerProcess.on('error', (err: Error) => {
+      this.finish(null);
+      logger.error('Failed to start crawler process', {
+        message: err?.message ?? 'Unknown error',
+        stack: err instanceof Error ? err.stack : 'No stack trace available',
+      });
+    });
+
+    crawlerProcess.on('close', (code) => {
+      this.finish(code);
+
+      if (code === 0) {
+        logger.info(this.cancelRequested ? 'Crawl cancelled' : 'Crawl completed successfully');
+      } else {
+        // Include captured stdout/stderr to aid troubleshooting
+        logger.error('Crawl failed', {
+          exitCode: code,
+          stdout: stdout || 'No stdout captured',
+          stderr: stderr || 'No stderr captured',
+        });
+      }
+    });
+  }
+
+  /**
+   * Asks the crawler to stop after the documents it is working on; the run
+   * is over and not resumed. The crawl is reported as finished once the
+   * process exits.
+   */
+  cancel(): void {
+    if (!this.process) {
+      throw new Error('No crawl is in progress');
+    }
+    if (this.cancelRequested || this.interruptRequested) return;
+
+    this.cancelRequested = true;
+    this.process.kill('SIGUSR2');
+    this.publish({ type: 'cancelling' });
+  }
+
+  /**
+   * Interrupts a running crawl and resolves once the crawler process has
+   * exited, so its checkpoint and run record are written before the API goes
+   * down. Unlike a cancelled run, the next crawl resumes it. A crawler that
+   * has not exited after 25 seconds is killed.
+   */
+  async stop(): Promise<void> {
+    if (!this.process) return;
+
+    const finished = new Promise<void>((resolve) => {
+      const onEvent = (event: CrawlStreamEvent) => {
+        if (event.type !== 'finished') return;
+        this.off('event', onEvent);
+        resolve();
+      };
+      this.on('event', onEvent);
+    });
+
+    logger.info('Waiting for the running crawl to stop');
+    const crawlerProcess = this.process;
+    if (!this.cancelRequested && !this.interruptRequested) {
+      this.interruptRequested = true;
+      crawlerProcess.kill('SIGTERM');
+    }
+
+    // A document stuck in extraction must not hold up the shutdown
+    const timeout = setTimeout(() => {
+      logger.warn(`Crawler did not stop within ${STOP_TIMEOUT_MS / 1000}s; killing it`);
+      crawlerProcess.kill('SIGKILL');
+    }, STOP_TIMEOUT_MS);
+    try {
+      await finished;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private handleCrawlEvent(event: CrawlEvent): void {
+    if (event.type === 'progress') {
+      this.progress = event.progress;
+    } else {
+      this.recentFiles.push(event);
+      if (this.recentFiles.length > RECENT_FILES_LIMIT) {
+        this.recentFiles.shift();
+      }
+    }
+    this.publish(event);
+  }
+
+  private finish(exitCode: number | null): void {
+    // 'error' and 'close' can both fire for the same process
+    if (!this.process) return;
+    this.process = null;
+    this.publish({
+      type: 'finished',
+      success: exitCode === 0,
+      cancelled: this.cancelRequested,
+      exitCode,
+      finishedAt: new Date().toISOString(),
+    });
+  }
+
+  private publish(event: CrawlStreamEvent): void {
+    this.emit('event', event);
+  }
+}
@@ -0,0 +1,192 @@
+import { EventEmitter } from 'events';
+import { CrawlRunSummary } from '../../shared/types';
+import { CrawlManager, CrawlStartOptions, CrawlStreamEvent } from './crawl-manager';
+import { CrawlScheduler } from './crawl-scheduler';
+
+const mockConfig = {
+  crawler: {
+    sources: [
+      { id: 'hr', schedule: { incremental: '*/30 * * * *' } },
+      { id: 'legal' },
+    ],
+  },
+  scheduler: {
+    enabled: true,
+    runOnStartup: false,
+    timezone: 'UTC',
+    incremental: '0 * * * *',
+    full: '0 2 * * 0',
+  },
+};
+const mockRuns: Partial<CrawlRunSummary>[] = [];
+
+// Getters: jest.mock() factories are hoisted above the declarations
+jest.mock('../../shared/config', () => ({ get config() { return mockConfig; } }));
+jest.mock('../../shared/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn() } }));
+jest.mock('../../shared/run-history', () => ({
+  CrawlRunHistory: jest.fn().mockImplementation(() => ({ list: async () => mockRuns })),
+}));
+
+/** Stands in for the crawler child process */
+class FakeCrawlManager extends EventEmitter {
+  inProgress = false;
+  started: CrawlStartOptions[] = [];
+
+  async start(options: CrawlStartOptions): Promise<void> {
+    this.inProgress = true;
+    this.started.push(options);
+  }
+
+  finish(): void {
+    this.inProgress = false;
+    const event: CrawlStreamEvent = { type: 'finished', success: true, cancelled: false, exitCode: 0, finishedAt: '' };
+    this.emit('event', event);
+  }
+}
+
+describe('CrawlScheduler', () => {
+  let manager: FakeCrawlManager;
+  let scheduler: CrawlScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-06-03T10:05:00Z') });
+    manager = new FakeCrawlManager();
+    scheduler = new CrawlScheduler(manager as unknown as CrawlManager);
+    mockConfig.scheduler.enabled = true;
+    mockConfig.scheduler.runOnStartup = false;
+    mockConfig.scheduler.timezone = 'UTC';
+    mockConfig.scheduler.full = '0 2 * * 0';
+    mockRuns.length = 0;
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  /** Moves the clock to a time and lets the scheduler tick */
+  async function advanceTo(time: string): Promise<void> {
+    await jest.advanceTimersByTimeAsync(new Date(time).getTime() - Date.now());
+  }
+
+  it('lists each source with its own schedule or the defaults', async () => {
+    await scheduler.start();
+
+    expect(scheduler.getStatus()).toEqual([
+      { sourceId: 'hr', mode: 'incremental', expression: '*/30 * * * *', nextRun: '2024-06-03T10:30:00.000Z' },
+      { sourceId: 'hr', mode: 'full', expression: '0 2 * * 0', nextRun: '2024-06-09T02:00:00.000Z' },
+      { sourceId: 'legal', mode: 'incremental', expression: '0 * * * *', nextRun: '2024-06-03T11:00:00.000Z' },
+      { sourceId: 'legal', mode: 'full', expression: '0 2 * * 0', nextRun: '2024-06-09T02:00:00.000Z' },
+    ]);
+  });
+
+  it('computes the next run in the configured time zone', async () => {
+    mockConfig.scheduler.timezone = 'Europe/Berlin';
+    await scheduler.start();
+
+    // 02:00 in Berlin is 00:00 UTC in summer
+    expect(scheduler.getStatus().find((job) => job.mode === 'full')?.nextRun).toBe('2024-06-09T00:00:00.000Z');
+  });
+
+  it('crawls on startup even with the schedules disabled', async () => {
+    mockConfig.scheduler.enabled = false;
+    mockConfig.scheduler.runOnStartup = true;
+    await scheduler.start();
+
+    expect(manager.started).toEqual([{ trigger: 'startup' }]);
+    expect(scheduler.getStatus()).toEqual([]);
+  });
+
+  it('does not crawl on startup when SCHEDULER_RUN_ON_STARTUP is false', async () => {
+    await scheduler.start();
+
+    expect(manager.started).toEqual([]);
+  });
+
+  it('starts a schedule when it comes due and moves it to its next occurrence', async () => {
+    await scheduler.start();
+    await advanceTo('2024-06-03T10:30:10Z');
+
+    expect(manager.started).toEqual([{ trigger: 'schedule', full: false, sources: ['hr'] }]);
+    expect(scheduler.getStatus()[0].nextRun).toBe('2024-06-03T11:00:00.000Z');
+  });
+
+  it('crawls sources due at the same time together', async () => {
+    await scheduler.start();
+    await advanceTo('2024-06-03T10:30:10Z');
+    manager.finish();
+    await advanceTo('2024-06-03T11:00:10Z');
+
+    expect(manager.started[1]).toEqual({ trigger: 'schedule', full: false, sources: ['hr', 'legal'] });
+  });
+
+  it('queues schedules that come due during a crawl and starts them when it finishes', async () => {
+    await scheduler.start();
+    manager.start({ trigger: 'manual' });
+    await advanceTo('2024-06-03T11:00:10Z');
+
+    expect(manager.started).toHaveLength(1);
+
+    manager.finish();
+    expect(manager.started[1]).toEqual({ trigger: 'schedule', full: false, sources: ['hr', 'legal'] });
+  });
+
+  it('collapses occurrences missed during a long crawl into one', async () => {
+    await scheduler.start();
+    manager.start({ trigger: 'manual' });
+    await advanceTo('2024-06-03T12:40:00Z');
+    manager.finish();
+
+    expect(manager.started.slice(1)).toEqual([{ trigger: 'schedule', full: false, sources: ['hr', 'legal'] }]);
+    expect(scheduler.getStatus()[0].nextRun).toBe('2024-06-03T13:00:00.000Z');
+  });
+
+  it('starts the oldest queued mode first', async () => {
+    await scheduler.start();
+    manager.start({ trigger: 'manual' });
+    await advanceTo('2024-06-09T02:00:10Z');
+    manager.finish();
+    manager.finish();
+
+    expect(manager.started.slice(1)).toEqual([
+      { trigger: 'schedule', full: false, sources: ['hr', 'legal'] },
+      { trigger: 'schedule', full: true, sources: ['hr', 'legal'] },
+    ]);
+  });
+
+  it('lets a full crawl satisfy queued incremental crawls of the same sources', async () => {
+    mockConfig.scheduler.full = '50 1 * * 0';
+    jest.setSystemTime(new Date('2024-06-09T01:45:00Z'));
+    await scheduler.start();
+    manager.start({ trigger: 'manual' });
+    await advanceTo('2024-06-09T02:00:10Z');
+    manager.finish();
+    manager.finish();
+
+    expect(manager.started.slice(1)).toEqual([{ trigger: 'schedule', full: true, sources: ['hr', 'legal'] }]);
+  });
+
+  it('reads the last run of each schedule from the run history', async () => {
+    mockRuns.push(
+      { startTime: new Date('2024-06-03T09:00:00.000Z'), full: false, sources: ['legal'], status: 'failed' },
+      { startTime: new Date('2024-06-02T09:00:00.000Z'), full: false, status: 'completed' },
+      { startTime: new Date('2024-06-01T02:00:00.000Z'), full: true, sources: ['hr'], status: 'interrupted' }
+    );
+    await scheduler.start();
+
+    expect(scheduler.getStatus().map(({ sourceId, mode, lastRun, lastStatus }) => ({ sourceId, mode, lastRun, lastStatus }))).toEqual([
+      { sourceId: 'hr', mode: 'incremental', lastRun: '2024-06-02T09:00:00.000Z', lastStatus: 'completed' },
+      { sourceId: 'hr', mode: 'full', lastRun: '2024-06-01T02:00:00.000Z', lastStatus: 'interrupted' },
+      { sourceId: 'legal', mode: 'incremental', lastRun: '2024-06-03T09:00:00.000Z', lastStatus: 'failed' },
+      { sourceId: 'legal', mode: 'full', lastRun: undefined, lastStatus: undefined },
+    ]);
+  });
+
+  it('stops starting crawls once stopped', async () => {
+    await scheduler.start();
+    scheduler.stop();
+    await advanceTo('2024-06-03T11:00:10Z');
+
+    expect(manager.started).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+import { parseExpression } from 'cron-parser';
+import { config } from '../../shared/config';
+import { logger } from '../../shared/logger';
+import { CrawlRunHistory } from '../../shared/run-history';
+import { CrawlRunStatus } from '../../shared/types';
+import { CrawlManager, CrawlStartOptions, CrawlStreamEvent } from './crawl-manager';
+
+export type CrawlMode = 'incremental' | 'full';
+
+export interface ScheduledCrawlStatus {
+  sourceId: string;
+  mode: CrawlMode;
+  expression: string;
+  nextRun: string;
+  lastRun?: string;
+  lastStatus?: CrawlRunStatus;
+}
+
+interface ScheduledJob {
+  sourceId: string;
+  mode: CrawlMode;
+  expression: string;
+  nextRun: Date;
+  lastRun?: Date;
+  lastStatus?: CrawlRunStatus;
+}
+
+// Cron expressions have minute resolution
+const TICK_INTERVAL_MS = 15000;
+
+/**
+ * Starts crawls on the cron schedules configured per source (or the
+ * SCHEDULER_* defaults). Unless SCHEDULER_RUN_ON_STARTUP is false, it also
+ * crawls once on startup, even with the schedules disabled.
+ *
+ * Only one crawl runs at a time: schedules that come due while a crawl is
+ * running are queued and started once it finishes, and sources due at the
+ * same time are crawled together in one run.
+ */
+export class CrawlScheduler {
+  private crawlManager: CrawlManager;
+  private history = new CrawlRunHistory();
+  private jobs: ScheduledJob[] = [];
+  private queue: ScheduledJob[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private onCrawlEvent = (event: CrawlStreamEvent) => {
+    if (event.type !== 'finished') return;
+    void this.refreshLastRuns();
+    this.drain();
+  };
+
+  constructor(crawlManager: CrawlManager) {
+    this.crawlManager = crawlManager;
+  }
+
+  async start(): Promise<void> {
+    // Independent of the schedules: the container has always crawled on start
+    if (config.scheduler.runOnStartup && !this.crawlManager.inProgress) {
+      logger.info('Starting crawl on startup');
+      this.startCrawl({ trigger: 'startup' });
+    }
+
+    if (!config.scheduler.enabled) {
+      logger.info('Crawl scheduler disabled');
+      return;
+    }
+
+    const now = new Date();
+    this.jobs = config.crawler.sources.flatMap((source) => {
+      const schedule = source.schedule ?? {};
+      return (['incremental', 'full'] as const).flatMap((mode) => {
+        const expression = schedule[mode] ?? config.scheduler[mode];
+        return expression
+          ? [{ sourceId: source.id, mode, expression, nextRun: this.nextRun(expression, now) }]
+          : [];
+      });
+    });
+
+    await this.refreshLastRuns();
+    this.crawlManager.on('event', this.onCrawlEvent);
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+
+    logger.info(`Crawl scheduler started with ${this.jobs.length} schedules`, {
+      timezone: config.scheduler.timezone,
+      schedules: this.getStatus(),
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.crawlManager.off('event', this.onCrawlEvent);
+    this.queue = [];
+  }
+
+  getStatus(): ScheduledCrawlStatus[] {
+    return this.jobs.map((job) => ({
+      sourceId: job.sourceId,
+      mode: job.mode,
+      expression: job.expression,
+      nextRun: job.nextRun.toISOString(),
+      lastRun: job.lastRun?.toISOString(),
+      lastStatus: job.lastStatus,
+    }));
+  }
+
+  private tick(): void {
+    const now = new Date();
+
+    for (const job of this.jobs) {
+      if (job.nextRun > now) continue;
+
+      // Occurrences missed while a long crawl was running collapse into one
+      job.nextRun = this.nextRun(job.expression, now);
+      if (!this.queue.includes(job)) {
+        this.queue.push(job);
+      }
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Starts the oldest queued schedule together with every other queued
+   * schedule of the same mode. A full crawl also satisfies queued incremental
+   * crawls of the same sources.
+   */
+  private drain(): void {
+    if (this.queue.length === 0 || this.crawlManager.inProgress) return;
+
+    const mode = this.queue[0].mode;
+    const batch = this.queue.filter((job) => job.mode === mode);
+    const sources = Array.from(new Set(batch.map((job) => job.sourceId)));
+
+    this.queue = this.queue.filter(
+      (job) => job.mode !== mode && !(mode === 'full' && sources.includes(job.sourceId))
+    );
+
+    logger.info(`Starting scheduled ${mode} crawl`, { sources });
+    this.startCrawl({ trigger: 'schedule', full: mode === 'full', sources });
+  }
+
+  private startCrawl(options: CrawlStartOptions): void {
+    this.crawlManager.start(options).catch((error) => {
+      logger.warn('Could not start crawl', {
+        trigger: options.trigger,
+        error: error instanceof Error ? error.message : error,
+      });
+    });
+  }
+
+  /**
+   * Last run of each schedule, from the run history. Any run that covered the
+   * source in the same mode counts, whether scheduled or manual.
+   */
+  private async refreshLastRuns(): Promise<void> {
+    try {
+      const runs = await this.history.list();
+      for (const job of this.jobs) {
+        const last = runs.find(
+          (run) =>
+            run.full === (job.mode === 'full') &&
+            (!run.sources || run.sources.includes(job.sourceId))
+        );
+        job.lastRun = last ? new Date(last.startTime) : undefined;
+        job.lastStatus = last?.status;
+      }
+    } catch (error) {
+      logger.warn('Failed to read crawl run history', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private nextRun(expression: string, after: Date): Date {
+    return parseExpression(expression, { currentDate: after, tz: config.scheduler.timezone }).next().toDate();
+  }
+}
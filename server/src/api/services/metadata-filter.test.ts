@@ -0,0 +1,127 @@
+import { AppError } from '../middleware/error-handler';
+import { config } from '../../shared/config';
+import { buildMetadataFilter, buildQueryFilter } from './metadata-filter';
+
+jest.mock('../../shared/config', () => ({
+  config: {
+    crawler: {
+      sources: [
+        {
+          type: 'sharepoint',
+          columns: [
+            { field: 'Department', name: 'Department', type: 'text' },
+            { field: 'Tags', name: 'Tags', type: 'multi' },
+            { field: 'Pages', name: 'Pages', type: 'number' },
+            { field: 'Effective_x0020_Date', name: 'EffectiveDate', type: 'date' },
+            { field: 'Approved', name: 'Approved', type: 'boolean' },
+          ],
+        },
+        { type: 'filesystem', rootPath: '/data' },
+      ],
+    },
+    security: { trimming: false },
+  },
+}));
+jest.mock('../../shared/logger', () => ({ logger: {} }));
+
+function rejection(input: unknown): AppError {
+  try {
+    buildMetadataFilter(input);
+  } catch (error) {
+    return error as AppError;
+  }
+  throw new Error('Filter was accepted');
+}
+
+describe('buildMetadataFilter', () => {
+  it('turns a value into $eq and a list into $in', () => {
+    expect(buildMetadataFilter({ Department: 'HR' })).toEqual({ Department: { $eq: 'HR' } });
+    expect(buildMetadataFilter({ Tags: ['travel', 'expenses'] })).toEqual({ Tags: { $in: ['travel', 'expenses'] } });
+  });
+
+  it('combines several fields with $and', () => {
+    expect(buildMetadataFilter({ Department: 'HR', Approved: true })).toEqual({
+      $and: [{ Department: { $eq: 'HR' } }, { Approved: { $eq: true } }],
+    });
+  });
+
+  it('accepts built-in fields', () => {
+    expect(buildMetadataFilter({ table: true, author: 'J. Smith' })).toEqual({
+      $and: [{ table: { $eq: true } }, { author: { $eq: 'J. Smith' } }],
+    });
+  });
+
+  it('converts dates to epoch milliseconds', () => {
+    expect(buildMetadataFilter({ EffectiveDate: { $gte: '2024-01-01T00:00:00Z', $lt: 1735689600000 } })).toEqual({
+      EffectiveDate: { $gte: Date.UTC(2024, 0, 1), $lt: 1735689600000 },
+    });
+  });
+
+  it('passes $and and $or through', () => {
+    expect(buildMetadataFilter({ $or: [{ Pages: { $gt: 10 } }, { Department: { $nin: ['HR'] } }] })).toEqual({
+      $or: [{ Pages: { $gt: 10 } }, { Department: { $nin: ['HR'] } }],
+    });
+  });
+
+  it.each([
+    ['a filter that is not an object', 'HR', 'Filter must be an object'],
+    ['an empty filter', {}, 'Filter is empty'],
+    ['an unknown field', { Owner: 'x' }, 'Cannot filter on "Owner"; it is not a configured column'],
+    ['an unsupported operator', { Pages: { $regex: 'x' } }, 'Unsupported filter operator: $regex'],
+    ['a range on a text column', { Department: { $gt: 'A' } }, '$gt only applies to number and date columns ("Department" is text)'],
+    ['a string for a number', { Pages: '10' }, 'Filter on "Pages" expects a number'],
+    ['an invalid date', { EffectiveDate: 'soon' }, 'Filter on "EffectiveDate" expects a date'],
+    ['a string for a boolean', { Approved: 'yes' }, 'Filter on "Approved" expects true or false'],
+    ['$in without a list', { Department: { $in: 'HR' } }, '$in on "Department" expects a list'],
+    ['an operator object without conditions', { Department: {} }, 'Filter on "Department" has no conditions'],
+    ['an empty $or', { $or: [] }, '$or expects a non-empty list of filters'],
+  ])('rejects %s with a 400', (_, input, message) => {
+    const error = rejection(input);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe(message);
+  });
+});
+
+describe('buildQueryFilter', () => {
+  const principals = ['everyone', 'user:jane@contoso.com'];
+
+  afterEach(() => {
+    config.security.trimming = false;
+  });
+
+  it('filters on the metadata only without security trimming', () => {
+    expect(buildQueryFilter(undefined, principals)).toBeUndefined();
+    expect(buildQueryFilter({ Department: 'HR' }, principals)).toEqual({ Department: { $eq: 'HR' } });
+  });
+
+  it("filters on the caller's principals with security trimming", () => {
+    config.security.trimming = true;
+
+    expect(buildQueryFilter(undefined, principals)).toEqual({ principals: { $in: principals } });
+  });
+
+  it('requires both the principals and the metadata filter to match', () => {
+    config.security.trimming = true;
+
+    expect(buildQueryFilter({ $or: [{ Department: 'HR' }, { Pages: { $gt: 10 } }] }, principals)).toEqual({
+      $and: [
+        { principals: { $in: principals } },
+        { $or: [{ Department: { $eq: 'HR' } }, { Pages: { $gt: 10 } }] },
+      ],
+    });
+  });
+
+  it('matches nothing for a caller without principals', () => {
+    config.security.trimming = true;
+
+    expect(buildQueryFilter(undefined, undefined)).toEqual({ principals: { $in: [] } });
+  });
+
+  it('rejects an invalid metadata filter with security trimming', () => {
+    config.security.trimming = true;
+
+    expect(() => buildQueryFilter({ Owner: 'x' }, principals)).toThrow(AppError);
+  });
+});
@@ -0,0 +1,136 @@
+import { config, ColumnConfig } from '../../shared/config';
+import { AppError } from '../middleware/error-handler';
+
+type FilterValue = string | number | boolean;
+type ColumnType = ColumnConfig['type'];
+
+const COMPARISON_OPERATORS = ['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin'];
+const RANGE_OPERATORS = ['$gt', '$gte', '$lt', '$lte'];
+
+// Built-in chunk metadata that can be filtered on besides the configured columns
+const BUILT_IN_FIELDS: Record<string, ColumnType> = {
+  sourceId: 'text',
+  site: 'text',
+  library: 'text',
+  filename: 'text',
+  // Stored in Word 97-2003 and RTF documents
+  author: 'text',
+  // Only set (to true) on table chunks
+  table: 'boolean',
+};
+
+function filterableFields(): Map<string, ColumnType> {
+  const fields = new Map(Object.entries(BUILT_IN_FIELDS));
+  for (const source of config.crawler.sources) {
+    if (source.type !== 'sharepoint') continue;
+    for (const column of source.columns) {
+      fields.set(column.name, column.type);
+    }
+  }
+  return fields;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Dates are stored as epoch milliseconds; ISO date strings are accepted too.
+ */
+function toValue(field: string, type: ColumnType, value: unknown): FilterValue {
+  if (type === 'date') {
+    const time = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+    if (Number.isNaN(time)) {
+      throw new AppError(`Filter on "${field}" expects a date`, 400);
+    }
+    return time;
+  }
+  if (type === 'number' && typeof value !== 'number') {
+    throw new AppError(`Filter on "${field}" expects a number`, 400);
+  }
+  if (type === 'boolean' && typeof value !== 'boolean') {
+    throw new AppError(`Filter on "${field}" expects true or false`, 400);
+  }
+  if ((type === 'text' || type === 'multi') && typeof value !== 'string') {
+    throw new AppError(`Filter on "${field}" expects a string`, 400);
+  }
+  return value as FilterValue;
+}
+
+function buildCondition(field: string, type: ColumnType, condition: unknown): Record<string, unknown> {
+  // Shorthands: a value means $eq, a list means $in
+  if (Array.isArray(condition)) {
+    return { $in: condition.map((value) => toValue(field, type, value)) };
+  }
+  if (!isPlainObject(condition)) {
+    return { $eq: toValue(field, type, condition) };
+  }
+
+  const operators = Object.entries(condition);
+  if (operators.length === 0) {
+    throw new AppError(`Filter on "${field}" has no conditions`, 400);
+  }
+
+  return Object.fromEntries(
+    operators.map(([operator, value]) => {
+      if (!COMPARISON_OPERATORS.includes(operator)) {
+        throw new AppError(`Unsupported filter operator: ${operator}`, 400);
+      }
+      if (RANGE_OPERATORS.includes(operator) && type !== 'number' && type !== 'date') {
+        throw new AppError(`${operator} only applies to number and date columns ("${field}" is ${type})`, 400);
+      }
+      if (operator === '$in' || operator === '$nin') {
+        if (!Array.isArray(value)) {
+          throw new AppError(`${operator} on "${field}" expects a list`, 400);
+        }
+        return [operator, value.map((item) => toValue(field, type, item))];
+      }
+      return [operator, toValue(field, type, value)];
+    })
+  );
+}
+
+function buildFilter(input: Record<string, unknown>, fields: Map<string, ColumnType>): Record<string, unknown> {
+  const clauses = Object.entries(input).map(([key, value]) => {
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isPlainObject)) {
+        throw new AppError(`${key} expects a non-empty list of filters`, 400);
+      }
+      return { [key]: value.map((item) => buildFilter(item, fields)) };
+    }
+
+    const type = fields.get(key);
+    if (!type) {
+      throw new AppError(`Cannot filter on "${key}"; it is not a configured column`, 400);
+    }
+    return { [key]: buildCondition(key, type, value) };
+  });
+
+  if (clauses.length === 0) {
+    throw new AppError('Filter is empty', 400);
+  }
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+/**
+ * Validates a query filter against the configured columns and converts it to
+ * a Pinecone metadata filter. Throws a 400 AppError when it is invalid.
+ * Multi-value columns match when any of their values matches.
+ */
+export function buildMetadataFilter(input: unknown): Record<string, unknown> {
+  if (!isPlainObject(input)) {
+    throw new AppError('Filter must be an object', 400);
+  }
+  return buildFilter(input, filterableFields());
+}
+
+/**
+ * The filter a query retrieves chunks with: with security trimming, only
+ * chunks readable by one of the caller's principals, combined with the
+ * request's metadata filter.
+ */
+export function buildQueryFilter(metadataFilter: unknown, principals: string[] | undefined): Record<string, unknown> | undefined {
+  const columnFilter = metadataFilter === undefined ? undefined : buildMetadataFilter(metadataFilter);
+  const trimmingFilter = config.security.trimming ? { principals: { $in: principals ?? [] } } : undefined;
+  return trimmingFilter && columnFilter ? { $and: [trimmingFilter, columnFilter] } : trimmingFilter ?? columnFilter;
+}
@@ -0,0 +1,90 @@
+import { removeBoilerplate } from './boilerplate';
+
+const policy = [
+  '# Daily limits',
+  'Grade 1 daily limit 50',
+  'Grade 2 daily limit 60',
+  'Grade 3 daily limit 70',
+  'Grade 4 daily limit 80',
+  'Grade 5 daily limit 90',
+].join('\n');
+
+/** Pages with a running header and footer around the given bodies */
+function withHeaders(bodies: string[]): string[] {
+  return bodies.map((body, i) =>
+    ['ACME Corp — Confidential', body, `Page ${i + 1} of ${bodies.length}`].join('\n')
+  );
+}
+
+describe('removeBoilerplate', () => {
+  it('keeps numbered lines without a contents title or dot leaders', () => {
+    const result = removeBoilerplate([policy], { contents: true });
+
+    expect(result.pages).toEqual([policy]);
+    expect(result.removedLines).toBe(0);
+  });
+
+  it('keeps numbered lines on the pages of a paged document', () => {
+    const pages = withHeaders(['Introduction text', policy, 'Closing text']);
+    const result = removeBoilerplate(pages, { contents: true });
+
+    expect(result.pages[1]).toBe(policy);
+  });
+
+  it('keeps table rows', () => {
+    const table = ['| Grade | Limit |', '| --- | --- |', '| 1 | 50 |', '| 2 | 60 |', '| 3 | 70 |'].join('\n');
+    const result = removeBoilerplate(withHeaders(['Text', table, 'Text']), { contents: true });
+
+    expect(result.pages[1]).toBe(table);
+  });
+
+  it('removes running headers, footers and page numbers', () => {
+    const result = removeBoilerplate(
+      withHeaders(['First page body', 'Second page body', 'Third page body', 'Fourth page body'])
+    );
+
+    expect(result.pages).toEqual(['First page body', 'Second page body', 'Third page body', 'Fourth page body']);
+    expect(result.removedLines).toBe(8);
+  });
+
+  it('keeps the lines of documents with fewer than three pages', () => {
+    const pages = ['ACME Corp\nFirst page body', 'ACME Corp\nSecond page body'];
+
+    expect(removeBoilerplate(pages).pages).toEqual(pages);
+  });
+
+  it('keeps a single page', () => {
+    const page = 'Title\nSome text\n12';
+
+    expect(removeBoilerplate([page]).pages).toEqual([page]);
+  });
+
+  it('removes a titled table of contents on the first page', () => {
+    const contents = ['Contents', 'Scope 1', 'Definitions 2', 'Limits 3'].join('\n');
+    const result = removeBoilerplate([`${contents}\n# Scope\nThis policy applies to everyone.`], { contents: true });
+
+    expect(result.pages).toEqual(['# Scope\nThis policy applies to everyone.']);
+    expect(result.removedLines).toBe(4);
+  });
+
+  it('removes dot-leader entries without a title', () => {
+    const contents = ['Scope ........ 1', 'Definitions ........ 2', 'Limits ........ 3'].join('\n');
+    const result = removeBoilerplate([`${contents}\nBody text`], { contents: true });
+
+    expect(result.pages).toEqual(['Body text']);
+  });
+
+  it('leaves tables of contents alone without the contents option', () => {
+    const page = ['Contents', 'Scope 1', 'Definitions 2', 'Limits 3', 'Body text'].join('\n');
+
+    expect(removeBoilerplate([page]).pages).toEqual([page]);
+  });
+
+  it('only looks for contents sections on the first pages', () => {
+    const bodies = ['One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight'].map((word) => `${word} body`);
+    bodies[6] = ['Contents', 'Scope 1', 'Definitions 2', 'Limits 3'].join('\n');
+    const result = removeBoilerplate(bodies, { contents: true });
+
+    expect(result.pages[6]).toBe(bodies[6]);
+  });
+});
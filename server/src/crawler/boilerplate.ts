@@ -0,0 +1,168 @@
+export interface BoilerplateOptions {
+  /**
+   * Remove tables of contents and indexes from the front of the document.
+   * Only formats with page numbers to refer to have them (PDF, Word).
+   */
+  contents?: boolean;
+}
+
+export interface BoilerplateResult {
+  pages: string[];
+  /** Characters of the removed lines */
+  removedCharacters: number;
+  removedLines: number;
+}
+
+interface SourceLine {
+  page: number;
+  text: string;
+  removed: boolean;
+}
+
+// Running headers and footers sit in the first or last few lines of a page
+const EDGE_LINES = 3;
+// Shorter documents have too few pages to tell a running header from content
+const MIN_PAGES = 3;
+// Share of pages a line must be repeated on; left and right pages often alternate headers
+const MIN_PAGE_SHARE = 0.4;
+
+// "12", "- 12 -", "Page 3", "Page 3 of 10", "Seite 3 von 10", "3/10"; not "2024"
+const PAGE_NUMBER = /^(?:[-–—]\s*)?(?:(?:page|seite|p\.|pg\.?)\s*)?\d{1,3}(?:\s*(?:of|von|\/)\s*\d{1,4})?(?:\s*[-–—])?$/i;
+
+const TOC_TITLE = /^(?:#{1,6}\s+)?(?:table of contents|contents|inhaltsverzeichnis|inhalt|sommaire|table des matières|index|stichwortverzeichnis)\s*:?$/i;
+// Ends in page references: "Scope 4", "Scope ...... iv", "Budget 12, 45–47"
+const PAGE_REFERENCE = /\S(?:\s*(?:\.\s?){2,}\s*|\s*…\s*|\s+)(?:\d{1,3}|[ivxlc]{1,6})(?:\s*[,–-]\s*\d{1,3})*$/i;
+const DOT_LEADER = /\S\s*(?:(?:\.\s?){4,}|…)\s*(?:\d{1,3}|[ivxlc]{1,6})$/i;
+// Index sections group their entries under single letters
+const INDEX_LETTER = /^[A-ZÄÖÜ]$/;
+
+const MIN_TOC_ENTRIES = 3;
+// Contents sections start on the first pages, or in the first lines of a document without pages
+const FRONT_PAGES = 5;
+const FRONT_LINES = 150;
+
+/** Markup the chunker relies on is never dropped */
+function isStructure(text: string): boolean {
+  return text.startsWith('#') || text.startsWith('|');
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+}
+
+/**
+ * Lines repeated at the top or bottom of many pages (headers, footers,
+ * confidentiality notices) and page numbers. Digits are ignored when lines
+ * are compared, so "Page 3 of 10" repeats on every page.
+ */
+function markRunningLines(lines: SourceLine[], pageCount: number): void {
+  const byPage: SourceLine[][] = Array.from({ length: pageCount }, () => []);
+  for (const line of lines) {
+    if (line.text) byPage[line.page].push(line);
+  }
+  // Short pages (slides, title pages) keep most of their lines as content
+  const edges = byPage.map((pageLines) => {
+    const count = Math.min(EDGE_LINES, Math.floor(pageLines.length / 3)) || 1;
+    return pageLines.length <= count * 2
+      ? pageLines
+      : [...pageLines.slice(0, count), ...pageLines.slice(-count)];
+  });
+
+  for (const pageEdges of edges) {
+    for (const line of pageEdges) {
+      if (PAGE_NUMBER.test(line.text)) line.removed = true;
+    }
+  }
+
+  const pagesWithText = edges.filter((pageEdges) => pageEdges.length > 0).length;
+  if (pagesWithText < MIN_PAGES) return;
+
+  const pagesByKey = new Map<string, Set<number>>();
+  for (const line of edges.flat()) {
+    if (isStructure(line.text)) continue;
+    const key = normalize(line.text);
+    pagesByKey.set(key, (pagesByKey.get(key) ?? new Set()).add(line.page));
+  }
+
+  const minPages = Math.max(MIN_PAGES, Math.ceil(pagesWithText * MIN_PAGE_SHARE));
+  for (const line of edges.flat()) {
+    if (!isStructure(line.text) && (pagesByKey.get(normalize(line.text))?.size ?? 0) >= minPages) {
+      line.removed = true;
+    }
+  }
+}
+
+/**
+ * Tables of contents and indexes at the front of the document: a "Contents"
+ * or "Index" title followed by entries that end in page numbers, or a run of
+ * dot-leader entries ("Scope ........ 4"). Numbered lines without either,
+ * like "Grade 1 daily limit 50", are content.
+ */
+function markContentsSections(lines: SourceLine[], pageCount: number): void {
+  const kept = lines.filter((line) => !line.removed && line.text);
+  const frontEnd = pageCount > 1
+    ? kept.filter((line) => line.page < FRONT_PAGES).length
+    : Math.min(kept.length, FRONT_LINES);
+
+  let i = 0;
+  while (i < frontEnd) {
+    let end = i;
+
+    if (TOC_TITLE.test(kept[i].text)) {
+      let entries = 0;
+      for (let j = i + 1; j < kept.length; j++) {
+        const text = kept[j].text;
+        const tableRow = text.startsWith('|');
+        // The next heading ends the section, even one like "2 Scope"
+        if (text.startsWith('#')) break;
+        if (!tableRow && !PAGE_REFERENCE.test(text) && !INDEX_LETTER.test(text)) break;
+        // A table right under the title is the contents laid out in columns
+        if (tableRow || PAGE_REFERENCE.test(text)) entries++;
+        end = j;
+      }
+      if (entries < MIN_TOC_ENTRIES) end = i;
+    } else if (DOT_LEADER.test(kept[i].text)) {
+      let j = i;
+      while (j + 1 < kept.length && DOT_LEADER.test(kept[j + 1].text)) j++;
+      if (j - i + 1 >= MIN_TOC_ENTRIES) end = j;
+    }
+
+    if (end > i) {
+      for (let j = i; j <= end; j++) kept[j].removed = true;
+    }
+    i = end + 1;
+  }
+}
+
+/**
+ * Drops text that appears in nearly every chunk but says nothing about the
+ * document: running headers and footers, page numbers and, with
+ * `options.contents`, tables of contents and indexes. Headings and table rows
+ * are left alone, except in a table of contents. Pass the text of a document
+ * without pages as a single page.
+ */
+export function removeBoilerplate(pages: string[], options: BoilerplateOptions = {}): BoilerplateResult {
+  const lines: SourceLine[] = pages.flatMap((text, page) =>
+    text.split('\n').map((line) => ({ page, text: line.trim(), removed: false }))
+  );
+
+  if (pages.length > 1) markRunningLines(lines, pages.length);
+  if (options.contents) markContentsSections(lines, pages.length);
+
+  const removed = lines.filter((line) => line.removed);
+  if (removed.length === 0) {
+    return { pages, removedCharacters: 0, removedLines: 0 };
+  }
+
+  // Rebuilt from the trimmed lines; the processor trims every line anyway
+  const result: string[][] = pages.map(() => []);
+  for (const line of lines) {
+    if (!line.removed) result[line.page].push(line.text);
+  }
+
+  return {
+    pages: result.map((pageLines) => pageLines.join('\n')),
+    removedCharacters: removed.reduce((total, line) => total + line.text.length, 0),
+    removedLines: removed.length,
+  };
+}
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CrawlCheckpoint } from './checkpoint';
+
+jest.mock('../shared/config', () => ({ config: { crawler: { stateDir: 'data' } } }));
+jest.mock('../shared/logger', () => ({ logger: { info: jest.fn() } }));
+
+describe('CrawlCheckpoint', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoint-'));
+    filePath = path.join(dir, 'checkpoint.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /** Leaves the checkpoint of a run that stopped halfway through source "hr" */
+  async function interruptedRun(full: boolean, sourceIds?: string[]): Promise<string> {
+    const checkpoint = new CrawlCheckpoint(filePath);
+    await checkpoint.begin('auto', full, sourceIds);
+    checkpoint.completeSource('legal');
+    checkpoint.markDocumentHandled('hr', 'doc-1');
+    checkpoint.setChangeToken('hr', 'token-1');
+    await checkpoint.save({ ...checkpoint.totals, documentsProcessed: 3 });
+    return checkpoint.runId;
+  }
+
+  it('starts a new run without a checkpoint', async () => {
+    const checkpoint = new CrawlCheckpoint(filePath);
+
+    expect(await checkpoint.begin('auto', true)).toBe(false);
+    expect(checkpoint.full).toBe(true);
+    expect(checkpoint.totals.documentsProcessed).toBe(0);
+  });
+
+  it('resumes a run with the same options where it stopped', async () => {
+    const runId = await interruptedRun(false, ['legal', 'hr']);
+    const checkpoint = new CrawlCheckpoint(filePath);
+
+    expect(await checkpoint.begin('auto', false, ['hr', 'legal'])).toBe(true);
+    expect(checkpoint.runId).toBe(runId);
+    expect(checkpoint.totals.documentsProcessed).toBe(3);
+    expect(checkpoint.isSourceCompleted('legal')).toBe(true);
+    expect(checkpoint.isSourceCompleted('hr')).toBe(false);
+    expect(checkpoint.isDocumentHandled('hr', 'doc-1')).toBe(true);
+    expect(checkpoint.isDocumentHandled('hr', 'doc-2')).toBe(false);
+    expect(checkpoint.getChangeToken('hr')).toBe('token-1');
+  });
+
+  it('starts a full crawl instead of resuming an incremental one', async () => {
+    const runId = await interruptedRun(false);
+    const checkpoint = new CrawlCheckpoint(filePath);
+
+    expect(await checkpoint.begin('auto', true)).toBe(false);
+    expect(checkpoint.runId).not.toBe(runId);
+    expect(checkpoint.full).toBe(true);
+    expect(checkpoint.isSourceCompleted('legal')).toBe(false);
+  });
+
+  it('does not resume a run of other sources', async () => {
+    await interruptedRun(false, ['hr']);
+    const checkpoint = new CrawlCheckpoint(filePath);
+
+    expect(await checkpoint.begin('auto', false, ['legal'])).toBe(false);
+    expect(checkpoint.totals.documentsProcessed).toBe(0);
+  });
+
+  it('does not resume a run of all sources for one source', async () => {
+    await interruptedRun(false);
+
+    expect(await new CrawlCheckpoint(filePath).begin('auto', false, ['hr'])).toBe(false);
+  });
+
+  it('fails to resume when the options do not match', async () => {
+    const runId = await interruptedRun(true);
+
+    await expect(new CrawlCheckpoint(filePath).begin('resume', false)).rejects.toThrow(
+      `Cannot resume crawl run ${runId}: it was a full crawl`
+    );
+    await expect(new CrawlCheckpoint(filePath).begin('resume', true, ['hr'])).rejects.toThrow(
+      `Cannot resume crawl run ${runId}: it crawled all sources, not sources hr`
+    );
+  });
+
+  it('fails to resume without a checkpoint', async () => {
+    await expect(new CrawlCheckpoint(filePath).begin('resume', false)).rejects.toThrow('No interrupted crawl to resume');
+  });
+
+  it('discards the checkpoint on restart', async () => {
+    const runId = await interruptedRun(false);
+    const checkpoint = new CrawlCheckpoint(filePath);
+
+    expect(await checkpoint.begin('restart', false)).toBe(false);
+    expect(checkpoint.runId).not.toBe(runId);
+  });
+
+  it('removes the checkpoint file when cleared', async () => {
+    const checkpoint = new CrawlCheckpoint(filePath);
+    await checkpoint.begin('auto', false);
+    await checkpoint.clear();
+
+    await expect(fs.access(filePath)).rejects.toThrow();
+    expect(await new CrawlCheckpoint(filePath).begin('auto', false)).toBe(false);
+  });
+});
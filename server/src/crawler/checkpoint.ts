@@ -0,0 +1,195 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { config } from '../shared/config';
+import { logger } from '../shared/logger';
+import { deleteJsonFile, readJsonFile, writeJsonFile } from '../shared/json-file';
+import { CrawlResult } from '../shared/types';
+
+export type CheckpointMode = 'auto' | 'resume' | 'restart';
+
+export type CrawlTotals = Pick<
+  CrawlResult,
+  'documentsProcessed' | 'documentsSkipped' | 'documentsUnchanged' | 'documentsDeleted' | 'errors'
+>;
+
+interface SourceCheckpoint {
+  completed: boolean;
+  // Change token captured when the source was first started, so a resumed
+  // run reads exactly the same slice of the change log
+  changeToken?: string;
+  // Documents already handled (indexed, unchanged or failed) in this run
+  documents: string[];
+}
+
+interface CheckpointFile {
+  runId: string;
+  startedAt: string;
+  updatedAt: string;
+  full: boolean;
+  /** Source ids the run was limited to; all configured sources when absent */
+  sourceIds?: string[];
+  sources: Record<string, SourceCheckpoint>;
+  totals: CrawlTotals;
+}
+
+/** Why a run with these options is not the one the checkpoint was written for */
+function describeMismatch(existing: CheckpointFile, full: boolean, sourceIds?: string[]): string | null {
+  if (existing.full !== full) {
+    return existing.full ? 'it was a full crawl' : 'it was an incremental crawl';
+  }
+  const label = (ids?: string[]) => (ids?.length ? `sources ${[...ids].sort().join(', ')}` : 'all sources');
+  if (label(existing.sourceIds) !== label(sourceIds)) {
+    return `it crawled ${label(existing.sourceIds)}, not ${label(sourceIds)}`;
+  }
+  return null;
+}
+
+/**
+ * Progress of the current crawl run, persisted so a crawler that dies halfway
+ * (OOM, container restart) can pick up where it stopped. The checkpoint is
+ * removed once a run completes.
+ */
+export class CrawlCheckpoint {
+  private filePath: string;
+  private data: CheckpointFile | null = null;
+  private handled = new Map<string, Set<string>>();
+
+  constructor(filePath: string = path.join(config.crawler.stateDir, 'checkpoint.json')) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Starts a new run or resumes the interrupted one.
+   * `auto` resumes when a checkpoint of a run with the same `full` flag and
+   * sources exists, `resume` requires one and `restart` discards it.
+   *
+   * @param sourceIds sources the run is limited to; all when absent
+   * @returns true when an interrupted run is being resumed
+   */
+  async begin(mode: CheckpointMode, full: boolean, sourceIds?: string[]): Promise<boolean> {
+    const existing = await readJsonFile<CheckpointFile>(this.filePath);
+    const mismatch = existing ? describeMismatch(existing, full, sourceIds) : null;
+
+    if (existing && mismatch && mode === 'resume') {
+      throw new Error(`Cannot resume crawl run ${existing.runId}: ${mismatch}`);
+    }
+
+    if (existing && !mismatch && mode !== 'restart') {
+      this.data = existing;
+      this.handled = new Map(
+        Object.entries(existing.sources).map(([sourceId, source]) => [sourceId, new Set(source.documents)])
+      );
+      logger.info(`Resuming crawl run ${existing.runId} started at ${existing.startedAt}`, {
+        full: existing.full,
+        completedSources: Object.entries(existing.sources)
+          .filter(([, source]) => source.completed)
+          .map(([sourceId]) => sourceId),
+      });
+      return true;
+    }
+
+    if (mode === 'resume') {
+      throw new Error('No interrupted crawl to resume');
+    }
+
+    if (existing) {
+      logger.info(`Discarding checkpoint of interrupted crawl run ${existing.runId}`, { reason: mismatch ?? 'restart' });
+    }
+
+    const now = new Date().toISOString();
+    this.data = {
+      runId: randomUUID(),
+      startedAt: now,
+      updatedAt: now,
+      full,
+      sourceIds: sourceIds?.length ? [...sourceIds].sort() : undefined,
+      sources: {},
+      totals: {
+        documentsProcessed: 0,
+        documentsSkipped: 0,
+        documentsUnchanged: 0,
+        documentsDeleted: 0,
+        errors: [],
+      },
+    };
+    this.handled = new Map();
+    await this.save();
+    return false;
+  }
+
+  get runId(): string {
+    return this.state.runId;
+  }
+
+  get startedAt(): Date {
+    return new Date(this.state.startedAt);
+  }
+
+  get full(): boolean {
+    return this.state.full;
+  }
+
+  get totals(): CrawlTotals {
+    return this.state.totals;
+  }
+
+  isSourceCompleted(sourceId: string): boolean {
+    return this.state.sources[sourceId]?.completed ?? false;
+  }
+
+  getChangeToken(sourceId: string): string | undefined {
+    return this.state.sources[sourceId]?.changeToken;
+  }
+
+  setChangeToken(sourceId: string, token: string): void {
+    this.source(sourceId).changeToken = token;
+  }
+
+  completeSource(sourceId: string): void {
+    const source = this.source(sourceId);
+    source.completed = true;
+    source.documents = [];
+    this.handled.delete(sourceId);
+  }
+
+  isDocumentHandled(sourceId: string, documentId: string): boolean {
+    return this.handled.get(sourceId)?.has(documentId) ?? false;
+  }
+
+  markDocumentHandled(sourceId: string, documentId: string): void {
+    const handled = this.handled.get(sourceId) ?? new Set<string>();
+    handled.add(documentId);
+    this.handled.set(sourceId, handled);
+  }
+
+  async save(totals?: CrawlTotals): Promise<void> {
+    const data = this.state;
+    if (totals) data.totals = totals;
+    data.updatedAt = new Date().toISOString();
+
+    for (const [sourceId, handled] of this.handled) {
+      this.source(sourceId).documents = Array.from(handled);
+    }
+
+    await writeJsonFile(this.filePath, data);
+  }
+
+  async clear(): Promise<void> {
+    await deleteJsonFile(this.filePath);
+    this.data = null;
+    this.handled = new Map();
+  }
+
+  private get state(): CheckpointFile {
+    if (!this.data) {
+      throw new Error('Crawl checkpoint not started');
+    }
+    return this.data;
+  }
+
+  private source(sourceId: string): SourceCheckpoint {
+    const sources = this.state.sources;
+    sources[sourceId] ??= { completed: false, documents: [] };
+    return sources[sourceId];
+  }
+}
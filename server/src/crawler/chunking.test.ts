@@ -0,0 +1,110 @@
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { RecursiveChunker, StructureChunker } from './chunking';
+
+// Only chunkingStrategyFor() reads them
+jest.mock('../shared/config', () => ({ config: {} }));
+jest.mock('./extractors', () => ({ SITE_PAGE_CONTENT_TYPE: 'application/vnd.sharepoint.sitepage+json', extractors: {} }));
+
+function chunker(chunkSize: number): RecursiveChunker {
+  return new RecursiveChunker(new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap: 0 }));
+}
+
+const header = '| Grade | Daily limit |\n| --- | --- |';
+const rows = ['| 1 | 50 |', '| 2 | 60 |', '| 3 | 70 |', '| 4 | 80 |', '| 5 | 90 |'];
+const table = [header, ...rows].join('\n');
+
+describe('RecursiveChunker', () => {
+  it('keeps a table that fits in one chunk', async () => {
+    const chunks = await chunker(1000).split(table);
+
+    expect(chunks).toEqual([{ content: table, start: 0, end: table.length, table: true }]);
+  });
+
+  it('splits tables between rows and repeats the header row', async () => {
+    const chunks = await chunker(header.length + 25).split(table);
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      [header, rows[0], rows[1]].join('\n'),
+      [header, rows[2], rows[3]].join('\n'),
+      [header, rows[4]].join('\n'),
+    ]);
+    expect(chunks.every((chunk) => chunk.table)).toBe(true);
+  });
+
+  it('points the offsets of table chunks at their rows', async () => {
+    const content = `Limits per grade:\n${table}\nApproved by HR.`;
+    const chunks = await chunker(header.length + 25).split(content);
+    const tableChunks = chunks.filter((chunk) => chunk.table);
+
+    expect(content.slice(tableChunks[0].start, tableChunks[0].end)).toBe([header, rows[0], rows[1]].join('\n'));
+    expect(content.slice(tableChunks[1].start, tableChunks[1].end)).toBe([rows[2], rows[3]].join('\n'));
+    expect(content.slice(tableChunks[2].start, tableChunks[2].end)).toBe(rows[4]);
+  });
+
+  it('chunks the text around a table separately', async () => {
+    const chunks = await chunker(1000).split(`Limits per grade:\n${table}\nApproved by HR.`);
+
+    expect(chunks.map((chunk) => [chunk.content, !!chunk.table])).toEqual([
+      ['Limits per grade:', false],
+      [table, true],
+      ['Approved by HR.', false],
+    ]);
+  });
+
+  it('gives a row longer than the chunk size a chunk of its own', async () => {
+    const longRow = `| 6 | ${'x'.repeat(100)} |`;
+    const chunks = await chunker(header.length + 25).split([header, rows[0], longRow, rows[1]].join('\n'));
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      [header, rows[0]].join('\n'),
+      [header, longRow].join('\n'),
+      [header, rows[1]].join('\n'),
+    ]);
+  });
+
+  it('does not treat pipes without a separator row as a table', async () => {
+    const chunks = await chunker(1000).split('| not | a table |\n| just | text |');
+
+    expect(chunks).toEqual([{ content: '| not | a table |\n| just | text |', start: 0, end: 33 }]);
+  });
+
+  it('removes the escapes of lines starting with "#" but keeps the offsets', async () => {
+    const content = 'Ticket\n\\#4711 was closed.\n  \\# not a heading either';
+    const chunks = await chunker(1000).split(content);
+
+    expect(chunks).toEqual([
+      { content: 'Ticket\n#4711 was closed.\n  # not a heading either', start: 0, end: content.length },
+    ]);
+  });
+
+  it('keeps escaped pipes in table cells', async () => {
+    const escaped = '| Route | Note |\n| --- | --- |\n| A \\| B | direct |';
+
+    expect((await chunker(1000).split(escaped))[0].content).toBe(escaped);
+  });
+});
+
+describe('StructureChunker', () => {
+  it('records the heading path of table chunks', async () => {
+    const content = `# Policy\n## Limits\n${table}`;
+    const chunks = await new StructureChunker(chunker(1000)).split(content);
+
+    expect(chunks).toEqual([
+      { content: table, start: content.indexOf(table), end: content.length, table: true, headingPath: ['Policy', 'Limits'] },
+    ]);
+  });
+
+  it('does not take an escaped "#" for a heading and removes the escape', async () => {
+    const content = '# Release notes\n\\# 12 fixed the login.\nSee the tracker.';
+    const chunks = await new StructureChunker(chunker(1000)).split(content);
+
+    expect(chunks).toEqual([
+      {
+        content: '# 12 fixed the login.\nSee the tracker.',
+        start: content.indexOf('\\#'),
+        end: content.length,
+        headingPath: ['Release notes'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { config } from '../shared/config';
+import { SITE_PAGE_CONTENT_TYPE, extractors } from './extractors';
+
+export type ChunkingStrategy = 'structure' | 'recursive';
+
+export interface TextChunk {
+  /** Text of the chunk, without the escapes of "#" that starts a line but is no heading */
+  content: string;
+  /** Offsets of the chunk in the document content (end exclusive) */
+  start: number;
+  end: number;
+  /** Headings the chunk is under, outermost first */
+  headingPath?: string[];
+  /** The chunk is (part of) a Markdown table */
+  table?: boolean;
+}
+
+export interface Chunker {
+  split(content: string): Promise<TextChunk[]>;
+}
+
+// Content types whose extractors mark up headings
+const STRUCTURED_CONTENT_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword',
+  'application/rtf',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/html',
+  'text/markdown',
+  SITE_PAGE_CONTENT_TYPE,
+];
+
+const HEADING = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const FENCE = /^(```|~~~)/;
+const TABLE_ROW = /^\|.*\|$/;
+const TABLE_SEPARATOR = /^\|(?:\s*:?-{3,}:?\s*\|)+$/;
+// Extractors write "\#" for a "#" that starts a line of text, so it is not read as a heading
+const ESCAPED_HASH = /^(\s*)\\#/gm;
+
+interface Block {
+  text: string;
+  start: number;
+  table: boolean;
+}
+
+/** Splits content into Markdown tables (header, separator, rows) and the text between them */
+function splitTables(content: string): Block[] {
+  const lines = content.split('\n');
+  const blocks: Block[] = [];
+  let blockStart = 0;
+  let offset = 0;
+
+  const addBlock = (end: number, table: boolean) => {
+    if (end > blockStart) blocks.push({ text: content.slice(blockStart, end), start: blockStart, table });
+    blockStart = end;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (TABLE_ROW.test(lines[i]) && TABLE_SEPARATOR.test(lines[i + 1] ?? '')) {
+      addBlock(offset, false);
+      let end = offset;
+      while (i < lines.length && TABLE_ROW.test(lines[i])) {
+        end += lines[i].length + 1;
+        i++;
+      }
+      offset = Math.min(end, content.length);
+      addBlock(offset, true);
+      i--;
+      continue;
+    }
+    offset += lines[i].length + 1;
+  }
+  addBlock(content.length, false);
+
+  return blocks;
+}
+
+/**
+ * Splits on character count (chunkSize with chunkOverlap), preferring
+ * paragraph, line and word boundaries. Markdown tables are split between
+ * rows only, and every chunk of a table starts with its header row.
+ */
+export class RecursiveChunker implements Chunker {
+  constructor(private splitter: RecursiveCharacterTextSplitter) {}
+
+  async split(content: string): Promise<TextChunk[]> {
+    const chunks: TextChunk[] = [];
+    for (const block of splitTables(content)) {
+      if (block.table) {
+        chunks.push(...this.splitTable(block));
+        continue;
+      }
+
+      // Chunks are substrings of the content in order; overlapping ones start later
+      let searchFrom = 0;
+      for (const text of await this.splitter.splitText(block.text)) {
+        const start = Math.max(block.text.indexOf(text, searchFrom), 0);
+        searchFrom = start + 1;
+        chunks.push({
+          content: text.replace(ESCAPED_HASH, '$1#'),
+          start: block.start + start,
+          end: block.start + start + text.length,
+        });
+      }
+    }
+    return chunks;
+  }
+
+  private splitTable(block: Block): TextChunk[] {
+    const [headerRow, separator, ...rows] = block.text.replace(/\n$/, '').split('\n');
+    const header = `${headerRow}\n${separator}`;
+    const chunks: TextChunk[] = [];
+
+    let offset = block.start + header.length + 1;
+    let current: string[] = [];
+    let currentStart = block.start;
+    let currentLength = header.length;
+
+    const addChunk = () => {
+      chunks.push({
+        content: [header, ...current].join('\n'),
+        start: currentStart,
+        end: current.length > 0 ? offset - 1 : block.start + header.length,
+        table: true,
+      });
+    };
+
+    for (const row of rows) {
+      // A row longer than chunkSize still gets a chunk of its own
+      if (current.length > 0 && currentLength + row.length + 1 > this.splitter.chunkSize) {
+        addChunk();
+        current = [];
+        currentStart = offset;
+        currentLength = header.length;
+      }
+      current.push(row);
+      currentLength += row.length + 1;
+      offset += row.length + 1;
+    }
+    addChunk();
+
+    return chunks;
+  }
+}
+
+/**
+ * Splits at Markdown headings ("## Title", as written by the extractors) so
+ * no chunk spans two sections, and records the heading path of each chunk.
+ * Sections longer than chunkSize are split further by character count.
+ * Headings inside fenced code blocks are ignored.
+ */
+export class StructureChunker implements Chunker {
+  constructor(private fallback: RecursiveChunker) {}
+
+  async split(content: string): Promise<TextChunk[]> {
+    const chunks: TextChunk[] = [];
+    const path: { level: number; text: string }[] = [];
+    let sectionPath: string[] = [];
+    let sectionStart = 0;
+    let inFence = false;
+
+    const endSection = async (end: number) => {
+      const body = content.slice(sectionStart, end);
+      for (const chunk of await this.fallback.split(body)) {
+        chunks.push({
+          ...chunk,
+          start: sectionStart + chunk.start,
+          end: sectionStart + chunk.end,
+          headingPath: sectionPath.length > 0 ? sectionPath : undefined,
+        });
+      }
+    };
+
+    let offset = 0;
+    for (const line of content.split('\n')) {
+      const lineEnd = offset + line.length + 1;
+      if (FENCE.test(line)) inFence = !inFence;
+
+      const heading = inFence ? null : HEADING.exec(line);
+      if (heading) {
+        await endSection(offset);
+
+        const level = heading[1].length;
+        while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+        path.push({ level, text: heading[2] });
+        sectionPath = path.map((entry) => entry.text);
+        sectionStart = Math.min(lineEnd, content.length);
+      }
+      offset = lineEnd;
+    }
+    await endSection(content.length);
+
+    return chunks;
+  }
+}
+
+/**
+ * The strategy for a content type: CHUNK_STRATEGIES overrides by content type
+ * or file extension, otherwise structure for formats with headings.
+ */
+export function chunkingStrategyFor(contentType: string): ChunkingStrategy {
+  for (const [key, strategy] of Object.entries(config.pinecone.chunkStrategies)) {
+    const keyType = key.includes('/') ? key : extractors.contentTypeOf(`file.${key}`);
+    if (keyType === contentType) return strategy;
+  }
+  return STRUCTURED_CONTENT_TYPES.includes(contentType) ? 'structure' : 'recursive';
+}
@@ -0,0 +1,21 @@
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight.
+ * Workers pull the next item as soon as they finish, so a slow document never
+ * holds up the rest of the batch. `worker` is expected to handle its own
+ * errors; a rejection stops the remaining work and is rethrown.
+ */
+export async function forEachConcurrent<T>(
+  items: Iterable<T>,
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  const iterator = items[Symbol.iterator]();
+
+  const runWorker = async () => {
+    for (let next = iterator.next(); !next.done; next = iterator.next()) {
+      await worker(next.value);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, runWorker));
+}
@@ -0,0 +1,43 @@
+import { DocumentChanges, DocumentMetadata } from '../../shared/types';
+
+/** Identifies a single document: an indexed one (see ManifestEntry) or just its URL */
+export interface DocumentLookup {
+  url: string;
+  itemId?: number;
+  path?: string;
+}
+
+/**
+ * A content source the crawler can index. Connectors list documents as
+ * DocumentMetadata and download their bytes; the crawler takes care of
+ * change detection, extraction and indexing.
+ *
+ * Deletions are reported in one of two ways: connectors with a change log
+ * implement getCurrentChangeToken/getChanges and return deleted documents in
+ * DocumentChanges, otherwise the crawler compares a full listing against the
+ * manifest and removes whatever is no longer listed.
+ */
+export interface ContentConnector {
+  readonly sourceId: string;
+
+  initialize(): Promise<void>;
+
+  listDocuments(): Promise<DocumentMetadata[]>;
+
+  downloadDocument(doc: DocumentMetadata): Promise<Buffer>;
+
+  /**
+   * Current metadata of a single document, or null when it does not exist in
+   * this source or is out of its scope. Used to re-index one document.
+   */
+  getDocument(lookup: DocumentLookup): Promise<DocumentMetadata | null>;
+
+  /** Token marking the current end of the change log, stored between runs */
+  getCurrentChangeToken?(): Promise<string>;
+
+  /** Documents added, updated or deleted between two change tokens */
+  getChanges?(sinceToken: string, untilToken: string): Promise<DocumentChanges>;
+
+  /** Principals that can read the document, for security trimming */
+  getDocumentPrincipals?(doc: DocumentMetadata): Promise<string[]>;
+}
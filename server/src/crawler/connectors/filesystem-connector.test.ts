@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { FileSystemSourceConfig } from '../../shared/config';
+import { DocumentMetadata } from '../../shared/types';
+import { CrawlManifest } from '../manifest';
+import { FileSystemConnector } from './filesystem-connector';
+
+jest.mock('../../shared/config', () => ({
+  config: { crawler: { stateDir: 'data' }, dedup: { enabled: false }, ocr: { enabled: false } },
+}));
+jest.mock('../../shared/logger', () => ({ logger: { info: jest.fn(), debug: jest.fn(), error: jest.fn() } }));
+
+describe('FileSystemConnector', () => {
+  let root: string;
+
+  function connector(overrides: Partial<FileSystemSourceConfig> = {}): FileSystemConnector {
+    return new FileSystemConnector({
+      type: 'filesystem',
+      id: 'share',
+      rootPath: root,
+      include: [],
+      exclude: [],
+      recursive: true,
+      ...overrides,
+    });
+  }
+
+  async function write(relativePath: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(root, relativePath), content);
+  }
+
+  async function paths(docs: Promise<DocumentMetadata[]>): Promise<string[]> {
+    return (await docs).map((doc) => doc.path).sort();
+  }
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'share-'));
+    await write('Handbook.md', '# Handbook');
+    await write('notes.txt', 'Meeting notes');
+    await write('logo.bin', 'not a document');
+    await write('Policies/Travel Policy.md', '# Travel');
+    await write('Policies/Draft Travel Policy.md', '# Draft');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('lists supported files in the folder and its subfolders', async () => {
+    expect(await paths(connector().listDocuments())).toEqual([
+      'Handbook.md',
+      'Policies/Draft Travel Policy.md',
+      'Policies/Travel Policy.md',
+      'notes.txt',
+    ]);
+  });
+
+  it('does not descend into subfolders unless recursive', async () => {
+    expect(await paths(connector({ recursive: false }).listDocuments())).toEqual(['Handbook.md', 'notes.txt']);
+  });
+
+  it('lists only files matching the include patterns and none matching the exclude patterns', async () => {
+    const source = connector({ include: ['*.md'], exclude: ['Draft*'] });
+
+    expect(await paths(source.listDocuments())).toEqual(['Handbook.md', 'Policies/Travel Policy.md']);
+  });
+
+  it('applies the patterns to documents looked up by URL', async () => {
+    const source = connector({ include: ['*.md'], exclude: ['Draft*'] });
+    const lookup = (relativePath: string) => source.getDocument({ url: pathToFileURL(path.join(root, relativePath)).href });
+
+    expect(await lookup('Policies/Travel Policy.md')).toMatchObject({ path: 'Policies/Travel Policy.md' });
+    expect(await lookup('Policies/Draft Travel Policy.md')).toBeNull();
+    expect(await lookup('notes.txt')).toBeNull();
+    expect(await lookup('../outside.md')).toBeNull();
+  });
+
+  it('builds URLs under the base URL and finds documents by them', async () => {
+    const source = connector({ baseUrl: 'https://files.contoso.com/share/' });
+    const doc = (await source.listDocuments()).find((candidate) => candidate.filename === 'Travel Policy.md')!;
+
+    expect(doc.url).toBe('https://files.contoso.com/share/Policies/Travel%20Policy.md');
+    expect(await source.getDocument({ url: doc.url })).toEqual(doc);
+  });
+
+  describe('change detection through the manifest', () => {
+    let manifest: CrawlManifest;
+
+    beforeEach(async () => {
+      manifest = new CrawlManifest(path.join(root, '.state', 'manifest.json'));
+      await manifest.load();
+      // Index everything as the crawler would
+      for (const doc of await connector().listDocuments()) {
+        manifest.set({
+          id: doc.id,
+          sourceId: doc.sourceId,
+          filename: doc.filename,
+          url: doc.url,
+          path: doc.path,
+          modified: doc.modified.toISOString(),
+          size: doc.size,
+          contentHash: 'hash',
+          chunkCount: 1,
+          deduplicated: false,
+          indexedAt: new Date().toISOString(),
+        });
+      }
+    });
+
+    async function changed(): Promise<string[]> {
+      const docs = await connector().listDocuments();
+      return docs.filter((doc) => !manifest.isUnchanged(doc)).map((doc) => doc.path).sort();
+    }
+
+    it('finds nothing changed when the files were not touched', async () => {
+      expect(await changed()).toEqual([]);
+    });
+
+    it('finds files that were edited', async () => {
+      await write('notes.txt', 'Meeting notes, revised');
+      // Same size, later modification time
+      await write('Handbook.md', '# Handbooc');
+      await fs.utimes(path.join(root, 'Handbook.md'), new Date(), new Date(Date.now() + 60_000));
+
+      expect(await changed()).toEqual(['Handbook.md', 'notes.txt']);
+    });
+
+    it('finds files that were added or moved as new documents', async () => {
+      await write('Policies/Expenses.md', '# Expenses');
+      await fs.mkdir(path.join(root, 'Archive'));
+      await fs.rename(path.join(root, 'Handbook.md'), path.join(root, 'Archive', 'Handbook.md'));
+
+      const docs = await connector().listDocuments();
+      const moved = docs.find((doc) => doc.path === 'Archive/Handbook.md')!;
+
+      expect(await changed()).toEqual(['Archive/Handbook.md', 'Policies/Expenses.md']);
+      expect(manifest.get(moved.id)).toBeUndefined();
+    });
+  });
+});
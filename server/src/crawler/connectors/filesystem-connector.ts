@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { FileSystemSourceConfig } from '../../shared/config';
+import { logger } from '../../shared/logger';
+import { DocumentMetadata } from '../../shared/types';
+import { matchesFilePatterns } from '../file-patterns';
+import { SUPPORTED_EXTENSIONS, getContentType } from '../document-processor';
+import { ContentConnector, DocumentLookup } from './connector';
+
+/**
+ * Indexes files from a local folder, e.g. a file-share export or test fixtures
+ * in CI. Deletions are detected by the crawler from the full listing.
+ */
+export class FileSystemConnector implements ContentConnector {
+  private source: FileSystemSourceConfig;
+  private rootPath: string;
+
+  constructor(source: FileSystemSourceConfig) {
+    this.source = source;
+    this.rootPath = path.resolve(source.rootPath);
+  }
+
+  get sourceId(): string {
+    return this.source.id;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const stats = await fs.stat(this.rootPath);
+      if (!stats.isDirectory()) {
+        throw new Error(`Not a directory: ${this.rootPath}`);
+      }
+      logger.info(`Using local folder: ${this.rootPath}`, { source: this.source.id });
+    } catch (error) {
+      logger.error('Failed to initialize file system connector', { error, rootPath: this.rootPath });
+      throw error;
+    }
+  }
+
+  async listDocuments(): Promise<DocumentMetadata[]> {
+    try {
+      logger.info(`Fetching documents from folder: ${this.rootPath}`, { source: this.source.id });
+
+      const documents: DocumentMetadata[] = [];
+      await this.walk(this.rootPath, documents);
+
+      logger.info(`Found ${documents.length} documents`);
+      return documents;
+    } catch (error) {
+      logger.error('Failed to list documents', { error, rootPath: this.rootPath });
+      throw error;
+    }
+  }
+
+  async downloadDocument(doc: DocumentMetadata): Promise<Buffer> {
+    try {
+      logger.debug(`Reading document: ${doc.path}`);
+      return await fs.readFile(path.join(this.rootPath, doc.path));
+    } catch (error) {
+      logger.error(`Failed to read document: ${doc.path}`, { error });
+      throw error;
+    }
+  }
+
+  async getDocument(lookup: DocumentLookup): Promise<DocumentMetadata | null> {
+    const relativePath = lookup.path ?? this.pathFromUrl(lookup.url);
+    if (relativePath === null) return null;
+
+    const fullPath = path.resolve(this.rootPath, relativePath);
+    const relative = path.relative(this.rootPath, fullPath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+    if (!this.source.recursive && path.dirname(relative) !== '.') return null;
+
+    const name = path.basename(fullPath);
+    const extension = name.toLowerCase().split('.').pop() ?? '';
+    if (!SUPPORTED_EXTENSIONS.includes(extension)) return null;
+    if (!matchesFilePatterns(name, this.source.include, this.source.exclude)) return null;
+
+    try {
+      const stats = await fs.stat(fullPath);
+      return stats.isFile() ? this.toDocumentMetadata(fullPath, stats) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Path relative to the root folder for a URL built by toDocumentMetadata */
+  private pathFromUrl(url: string): string | null {
+    if (this.source.baseUrl) {
+      const base = `${this.source.baseUrl.replace(/\/+$/, '')}/`;
+      if (!url.startsWith(base)) return null;
+      return url.slice(base.length).split('/').map(decodeURIComponent).join('/');
+    }
+
+    if (!url.startsWith('file:')) return null;
+    return path.relative(this.rootPath, fileURLToPath(url));
+  }
+
+  private async walk(dir: string, documents: DocumentMetadata[]): Promise<void> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (this.source.recursive) {
+          await this.walk(fullPath, documents);
+        }
+        continue;
+      }
+
+      if (!entry.isFile()) continue;
+
+      const extension = entry.name.toLowerCase().split('.').pop() ?? '';
+      if (!SUPPORTED_EXTENSIONS.includes(extension)) continue;
+      if (!matchesFilePatterns(entry.name, this.source.include, this.source.exclude)) continue;
+
+      const stats = await fs.stat(fullPath);
+      documents.push(this.toDocumentMetadata(fullPath, stats));
+    }
+  }
+
+  private toDocumentMetadata(fullPath: string, stats: { mtime: Date; size: number }): DocumentMetadata {
+    // Forward slashes keep ids and URLs stable across platforms
+    const relativePath = path.relative(this.rootPath, fullPath).split(path.sep).join('/');
+
+    return {
+      id: createHash('sha1').update(`${this.source.id}:${relativePath}`).digest('hex'),
+      sourceId: this.source.id,
+      filename: path.basename(fullPath),
+      url: this.source.baseUrl
+        ? `${this.source.baseUrl.replace(/\/+$/, '')}/${relativePath.split('/').map(encodeURIComponent).join('/')}`
+        : pathToFileURL(fullPath).href,
+      path: relativePath,
+      modified: stats.mtime,
+      size: stats.size,
+      contentType: getContentType(fullPath),
+      site: this.source.baseUrl ?? pathToFileURL(this.rootPath).href,
+      library: path.basename(this.rootPath),
+    };
+  }
+}
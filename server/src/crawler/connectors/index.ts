@@ -0,0 +1,15 @@
+import { SourceConfig } from '../../shared/config';
+import { ContentConnector } from './connector';
+import { FileSystemConnector } from './filesystem-connector';
+import { SharePointConnector } from './sharepoint-connector';
+
+export type { ContentConnector, DocumentLookup } from './connector';
+
+export function createConnector(source: SourceConfig): ContentConnector {
+  switch (source.type) {
+    case 'sharepoint':
+      return new SharePointConnector(source);
+    case 'filesystem':
+      return new FileSystemConnector(source);
+  }
+}
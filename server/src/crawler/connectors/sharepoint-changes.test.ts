@@ -0,0 +1,101 @@
+import { DocumentMetadata } from '../../shared/types';
+import { ChangeType, ChangedItemReader, isChangeTokenExpired, resolveChanges } from './sharepoint-changes';
+
+jest.mock('../../shared/logger', () => ({ logger: { info: jest.fn() } }));
+
+const FILE = 0;
+const FOLDER = 1;
+
+function change(itemId: number, changeType: ChangeType) {
+  return { ItemId: itemId, ChangeType: changeType, UniqueId: `unique-${itemId}` };
+}
+
+function latest(...changes: ReturnType<typeof change>[]): Map<number, any> {
+  return new Map(changes.map((entry) => [entry.ItemId, entry]));
+}
+
+/** Reads items from a fixed set; items under /Archive are out of scope */
+function reader(items: Record<number, any>): ChangedItemReader {
+  return {
+    getItem: async (itemId) => {
+      if (!items[itemId]) throw Object.assign(new Error('Item does not exist'), { status: 404 });
+      return items[itemId];
+    },
+    isInScope: (item) => !item.FileRef.startsWith('/sites/hr/Documents/Archive/'),
+    toDocument: async (item) => ({ id: item.File.UniqueId, path: item.FileRef }) as DocumentMetadata,
+  };
+}
+
+function file(itemId: number, fileRef: string) {
+  return { FileSystemObjectType: FILE, FileRef: fileRef, File: { UniqueId: `file-${itemId}` } };
+}
+
+describe('resolveChanges', () => {
+  it('upserts added, updated and renamed files and deletes removed ones', async () => {
+    const changes = await resolveChanges(
+      latest(change(1, ChangeType.Add), change(2, ChangeType.Rename), change(3, ChangeType.DeleteObject), change(4, ChangeType.MoveAway)),
+      reader({ 1: file(1, '/sites/hr/Documents/Policy.docx'), 2: file(2, '/sites/hr/Documents/Handbook 2024.docx') })
+    );
+
+    expect(changes).toEqual({
+      upserted: [
+        { id: 'file-1', path: '/sites/hr/Documents/Policy.docx' },
+        { id: 'file-2', path: '/sites/hr/Documents/Handbook 2024.docx' },
+      ],
+      deleted: [{ id: 'unique-3', itemId: 3 }, { id: 'unique-4', itemId: 4 }],
+      requiresFullCrawl: false,
+    });
+  });
+
+  it('deletes files removed after the change was logged or moved out of scope', async () => {
+    const changes = await resolveChanges(
+      latest(change(1, ChangeType.Update), change(2, ChangeType.Update)),
+      reader({ 2: file(2, '/sites/hr/Documents/Archive/Policy.docx') })
+    );
+
+    expect(changes.upserted).toEqual([]);
+    expect(changes.deleted).toEqual([{ id: 'unique-1', itemId: 1 }, { id: 'file-2', itemId: 2 }]);
+  });
+
+  it.each([
+    ['renamed', ChangeType.Rename],
+    ['moved', ChangeType.MoveInto],
+  ])('asks for a full crawl when a folder was %s', async (_, changeType) => {
+    const changes = await resolveChanges(
+      latest(change(1, ChangeType.Update), change(2, changeType)),
+      reader({ 1: file(1, '/sites/hr/Documents/Policies/Travel.docx'), 2: { FileSystemObjectType: FOLDER, FileRef: '/sites/hr/Documents/Policies' } })
+    );
+
+    expect(changes.requiresFullCrawl).toBe(true);
+  });
+
+  it('ignores other changes to folders', async () => {
+    const changes = await resolveChanges(
+      latest(change(1, ChangeType.Add), change(2, ChangeType.Update)),
+      reader({
+        1: { FileSystemObjectType: FOLDER, FileRef: '/sites/hr/Documents/New folder' },
+        2: { FileSystemObjectType: FOLDER, FileRef: '/sites/hr/Documents/Policies' },
+      })
+    );
+
+    expect(changes).toEqual({ upserted: [], deleted: [], requiresFullCrawl: false });
+  });
+});
+
+describe('isChangeTokenExpired', () => {
+  it('recognises the error for a token older than the change log', () => {
+    const error = new Error(
+      'Error making HttpClient request in queryable [400] Bad Request ::> {"odata.error":{"code":"-2146233086, System.ArgumentOutOfRangeException","message":{"lang":"en-US","value":"Specified argument was out of the range of valid values.\\r\\nParameter name: The change token refers to a time before the start of the current change log."}}}'
+    );
+
+    expect(isChangeTokenExpired(error)).toBe(true);
+  });
+
+  it.each([
+    ['a throttling error', new Error('Error making HttpClient request in queryable [429] Too Many Requests')],
+    ['a network error', new TypeError('fetch failed')],
+    ['no error', undefined],
+  ])('does not mistake %s for an expired token', (_, error) => {
+    expect(isChangeTokenExpired(error)).toBe(false);
+  });
+});
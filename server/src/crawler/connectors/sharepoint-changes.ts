@@ -0,0 +1,78 @@
+import { logger } from '../../shared/logger';
+import { DeletedDocument, DocumentChanges, DocumentMetadata } from '../../shared/types';
+
+// SPChangeType values returned by the list change log
+export enum ChangeType {
+  Add = 1,
+  Update = 2,
+  DeleteObject = 3,
+  Rename = 4,
+  MoveAway = 5,
+  MoveInto = 6,
+  Restore = 7,
+}
+
+// SharePoint rejects tokens older than its change log (60 days by default in SharePoint Online) with
+// "Specified argument was out of the range of valid values. Parameter name: The change token refers to a time before the start of the current change log."
+const EXPIRED_TOKEN = /change ?token refers to a time before the start of the current change log/i;
+
+/** True for the error SharePoint returns when reading changes since an expired change token */
+export function isChangeTokenExpired(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' && EXPIRED_TOKEN.test(message);
+}
+
+/** Access to the list items named by the change log */
+export interface ChangedItemReader {
+  /** Current fields of an item; throws when the item no longer exists */
+  getItem(itemId: number): Promise<any>;
+  /** Inside the source's folder and matching its filters */
+  isInScope(item: any): boolean;
+  toDocument(item: any): Promise<DocumentMetadata>;
+}
+
+/**
+ * Resolves the last change of each item to the documents to upsert and the
+ * documents to delete. A renamed or moved folder asks for a full crawl
+ * instead: it changes the URL of every file below it, but the log only
+ * records the folder itself.
+ */
+export async function resolveChanges(latest: Map<number, any>, reader: ChangedItemReader): Promise<DocumentChanges> {
+  const upserted: DocumentMetadata[] = [];
+  const deleted: DeletedDocument[] = [];
+  let requiresFullCrawl = false;
+
+  for (const [itemId, change] of latest) {
+    if (change.ChangeType === ChangeType.DeleteObject || change.ChangeType === ChangeType.MoveAway) {
+      deleted.push({ id: change.UniqueId, itemId });
+      continue;
+    }
+
+    let item: any;
+    try {
+      item = await reader.getItem(itemId);
+    } catch (error) {
+      // The item was removed after the change was logged
+      deleted.push({ id: change.UniqueId, itemId });
+      continue;
+    }
+
+    if (item.FileSystemObjectType === 1) {
+      if (change.ChangeType === ChangeType.Rename || change.ChangeType === ChangeType.MoveInto) {
+        logger.info(`Folder renamed or moved: ${item.FileRef ?? itemId}`);
+        requiresFullCrawl = true;
+      }
+      continue;
+    }
+
+    // Moved out of the folder scope or no longer matching the filters
+    if (!reader.isInScope(item)) {
+      deleted.push({ id: item.File?.UniqueId ?? change.UniqueId, itemId });
+      continue;
+    }
+
+    upserted.push(await reader.toDocument(item));
+  }
+
+  return { upserted, deleted, requiresFullCrawl };
+}
@@ -0,0 +1,594 @@
+import { spfi, SPFI } from '@pnp/sp';
+import '@pnp/sp/webs';
+import '@pnp/sp/lists';
+import '@pnp/sp/files';
+import '@pnp/sp/folders';
+import '@pnp/sp/items';
+import '@pnp/sp/security';
+import '@pnp/sp/site-groups/web';
+import { MSAL, NodeFetch, SPDefault } from '@pnp/nodejs';
+import { readFileSync } from 'fs';
+import { config, SharePointSourceConfig } from '../../shared/config';
+import { logger } from '../../shared/logger';
+import { withRetry } from '../../shared/retry';
+import { ColumnValue, DocumentChanges, DocumentMetadata } from '../../shared/types';
+import { Configuration } from '@azure/msal-node';
+import { matchesFilePatterns } from '../file-patterns';
+import { SUPPORTED_EXTENSIONS, getContentType } from '../document-processor';
+import { SITE_PAGE_CONTENT_TYPE, SitePageContent } from '../extractors';
+import { ContentConnector, DocumentLookup } from './connector';
+import { isChangeTokenExpired, resolveChanges } from './sharepoint-changes';
+import { toPrincipal } from './sharepoint-principals';
+const { LogLevel, PnPLogging } = require("@pnp/logging");
+
+// SharePoint PrincipalType values
+enum PrincipalType {
+  User = 1,
+  SecurityGroup = 4,
+  SharePointGroup = 8,
+}
+
+// RoleTypeKind of the "Limited Access" role, which grants no read access by itself
+const ROLE_TYPE_GUEST = 1;
+
+// Site pages (.aspx) are crawled from their list item fields, not the file
+const PAGE_EXTENSION = 'aspx';
+const LIST_EXTENSIONS = [...SUPPORTED_EXTENSIONS, PAGE_EXTENSION];
+
+const ITEM_FIELDS = [
+  '*',
+  'File/Name',
+  'File/UniqueId',
+  'File/ServerRelativeUrl',
+  'File/TimeLastModified',
+  'File/Length',
+  'File/MajorVersion',
+  'File/MinorVersion',
+  'FileLeafRef',
+  'FileDirRef',
+];
+
+export class SharePointConnector implements ContentConnector {
+  private initialized = false;
+  private sp: SPFI | null = null;
+  private source: SharePointSourceConfig;
+  private scopeUrl: string | null = null;
+  private groupPrincipals = new Map<number, string[]>();
+  private itemFields: string[];
+  private itemExpand: string[];
+
+  constructor(source: SharePointSourceConfig) {
+    this.source = source;
+
+    // Display values of people, lookup and managed metadata columns are only
+    // available through FieldValuesAsText, so it is read when columns are configured
+    const needsText = source.columns.some((column) => column.type === 'text' || column.type === 'multi');
+    this.itemFields = needsText ? [...ITEM_FIELDS, 'FieldValuesAsText'] : ITEM_FIELDS;
+    this.itemExpand = needsText ? ['File', 'FieldValuesAsText'] : ['File'];
+  }
+
+  get sourceId(): string {
+    return this.source.id;
+  }
+  private formatError(error: any) {
+    if (!error) return error;
+    const details: any = {};
+    if (error instanceof Error) {
+      details.name = error.name;
+      details.message = error.message;
+      details.stack = error.stack;
+    } else if (typeof error === 'object') {
+      details.message = (error as any).message ?? JSON.stringify(error);
+    } else {
+      details.message = String(error);
+    }
+
+    // Axios / request-like response
+    if ((error as any).response) {
+      const resp = (error as any).response;
+      details.response = {
+        status: resp.status,
+        statusText: resp.statusText,
+        data: resp.data,
+      };
+    }
+
+    if ((error as any).config) {
+      const cfg = (error as any).config;
+      details.request = {
+        url: cfg.url,
+        method: cfg.method,
+        headers: cfg.headers,
+      };
+    }
+
+    return details;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      // Presence of the Azure AD settings is validated in config for SharePoint sources
+      const certificate = readFileSync(config.azure.certificatePath!, 'utf-8');
+      const msalConfig: Configuration = {
+        auth: {
+          clientId: config.azure.clientId!,
+          authority: `https://login.microsoftonline.com/${config.azure.tenantId}`,
+          clientCertificate: {
+            thumbprint: config.azure.thumbprint!,
+            privateKey: certificate,
+          },
+        },
+      };
+
+      const sharepointHost = new URL(this.source.siteUrl).origin;
+      const scopes = [`${sharepointHost}/.default`];
+
+    //  this.sp = spfi(config.sharepoint.siteUrl).using(NodeFetch()).using(MSAL(msalConfig, scopes));
+        // NodeFetch replaces SPDefault's built-in retry; throttling is handled
+        // by withRetry so SharePoint and Pinecone share one backoff policy
+        this.sp = spfi(this.source.siteUrl).using(
+                SPDefault(),
+                NodeFetch({ replace: true }),
+                MSAL(msalConfig, scopes),
+                PnPLogging(LogLevel.Info)
+            );
+
+      this.initialized = true;
+
+      // add code to get web title and print it in console.
+      const web = await this.sp.web();
+      logger.info(`Connected to SharePoint site: ${web.Title}`, { source: this.source.id });
+
+      const rootFolder = await this.sp.web.lists
+        .getByTitle(this.source.libraryName)
+        .rootFolder.select('ServerRelativeUrl')();
+      this.scopeUrl = this.source.folder
+        ? `${rootFolder.ServerRelativeUrl}/${this.source.folder.replace(/^\/+|\/+$/g, '')}`
+        : rootFolder.ServerRelativeUrl;
+
+      logger.info('SharePoint client initialized successfully');
+    } catch (error) {
+      logger.error('Failed to initialize SharePoint client', { error: this.formatError(error) });
+      throw error;
+    }
+  }
+
+  async listDocuments(): Promise<DocumentMetadata[]> {
+    if (!this.initialized || !this.sp) {
+      throw new Error('SharePoint client not initialized');
+    }
+
+    try {
+      logger.info(`Fetching documents from library: ${this.source.libraryName}`, { source: this.source.id });
+      const list = this.sp.web.lists.getByTitle(this.source.libraryName);
+      const pageSize = config.sharepoint.pageSize;
+
+      const [last] = await withRetry(
+        () => list.items.select('Id').orderBy('Id', false).top(1)(),
+        { label: `read last item id of ${this.source.libraryName}` }
+      );
+      const maxId: number = last?.Id ?? 0;
+
+      // Page through fixed Id windows. Id is always indexed, so each request
+      // scans at most pageSize rows and stays under the 5000-item list view
+      // threshold; folders and unsupported file types are filtered server-side.
+      const extensionFilter = LIST_EXTENSIONS
+        .map((ext) => `File_x0020_Type eq '${ext}'`)
+        .join(' or ');
+
+      const documents: DocumentMetadata[] = [];
+
+      for (let fromId = 0; fromId < maxId; fromId += pageSize) {
+        const items = await withRetry(
+          () => list.items
+            .select(...this.itemFields)
+            .expand(...this.itemExpand)
+            .filter(`Id gt ${fromId} and Id le ${fromId + pageSize} and FSObjType eq 0 and (${extensionFilter})`)
+            .top(pageSize)(),
+          { label: `list items ${fromId + 1}-${fromId + pageSize} of ${this.source.libraryName}` }
+        );
+
+        for (const item of items) {
+          if (this.isInScope(item)) {
+            documents.push(await this.resolveVersion(this.toDocumentMetadata(item)));
+          }
+        }
+
+        logger.debug(`Listed items ${fromId + 1}-${Math.min(fromId + pageSize, maxId)} of ${maxId}`, {
+          source: this.source.id,
+          documents: documents.length,
+        });
+      }
+
+      logger.info(`Found ${documents.length} documents`);
+      return documents;
+    } catch (error) {
+      logger.error('Failed to list documents', { error: this.formatError(error) });
+      throw error;
+    }
+  }
+
+  async getCurrentChangeToken(): Promise<string> {
+    if (!this.initialized || !this.sp) {
+      throw new Error('SharePoint client not initialized');
+    }
+
+    const sp = this.sp;
+    const list = await withRetry(
+      () => sp.web.lists.getByTitle(this.source.libraryName).select('CurrentChangeToken')(),
+      { label: `read change token of ${this.source.libraryName}` }
+    );
+
+    return list.CurrentChangeToken.StringValue;
+  }
+
+  /**
+   * Reads the list change log between two change tokens and resolves it to
+   * the documents to upsert and the documents to delete. Only the last event
+   * per item counts, so e.g. an add followed by a delete is a delete. An
+   * expired change token asks for a full crawl instead of failing.
+   */
+  async getChanges(sinceToken: string, untilToken: string): Promise<DocumentChanges> {
+    if (!this.initialized || !this.sp) {
+      throw new Error('SharePoint client not initialized');
+    }
+
+    try {
+      const list = this.sp.web.lists.getByTitle(this.source.libraryName);
+      const latest = new Map<number, any>();
+      let startToken = sinceToken;
+
+      // getChanges returns the log in pages; keep reading from the last token seen
+      for (;;) {
+        const query = {
+          Item: true,
+          Add: true,
+          Update: true,
+          DeleteObject: true,
+          Rename: true,
+          Move: true,
+          Restore: true,
+          ChangeTokenStart: { StringValue: startToken },
+          ChangeTokenEnd: { StringValue: untilToken },
+        };
+        const changes: any[] = await withRetry(() => list.getChanges(query), {
+          label: `read change log of ${this.source.libraryName}`,
+        });
+
+        if (!changes || changes.length === 0) break;
+
+        for (const change of changes) {
+          latest.set(change.ItemId, change);
+        }
+
+        const lastToken = changes[changes.length - 1].ChangeToken?.StringValue;
+        if (!lastToken || lastToken === startToken) break;
+        startToken = lastToken;
+      }
+
+      const result = await resolveChanges(latest, {
+        getItem: (itemId) => withRetry(
+          () => list.items.getById(itemId).select(...this.itemFields).expand(...this.itemExpand)(),
+          { label: `read item ${itemId}` }
+        ),
+        isInScope: (item) => this.isInScope(item),
+        toDocument: (item) => this.resolveVersion(this.toDocumentMetadata(item)),
+      });
+
+      logger.info(
+        `Change log since last crawl: ${result.upserted.length} added/updated, ${result.deleted.length} deleted`
+      );
+      return result;
+    } catch (error) {
+      if (isChangeTokenExpired(error)) {
+        logger.warn(`Change token of ${this.source.libraryName} has expired; the change log cannot be read`);
+        return { upserted: [], deleted: [], requiresFullCrawl: true };
+      }
+      logger.error('Failed to read list change log', { error: this.formatError(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves the principals that can read a document from its effective role
+   * assignments. SharePoint groups are expanded to their members so the result
+   * only contains users, Entra ID groups and "everyone", which is what a
+   * caller's identity can be matched against at query time.
+   */
+  async getDocumentPrincipals(doc: DocumentMetadata): Promise<string[]> {
+    if (!this.initialized || !this.sp) {
+      throw new Error('SharePoint client not initialized');
+    }
+    if (doc.itemId === undefined) {
+      throw new Error(`Cannot resolve permissions without a list item id: ${doc.filename}`);
+    }
+
+    try {
+      const item = this.sp.web.lists.getByTitle(this.source.libraryName).items.getById(doc.itemId);
+      const assignments: any[] = await withRetry(
+        () => item.roleAssignments.expand('Member', 'RoleDefinitionBindings')(),
+        { label: `read permissions of ${doc.filename}` }
+      );
+
+      const principals = new Set<string>();
+
+      for (const assignment of assignments) {
+        const bindings: any[] = assignment.RoleDefinitionBindings ?? [];
+        if (bindings.every((binding) => binding.RoleTypeKind === ROLE_TYPE_GUEST)) continue;
+
+        const member = assignment.Member;
+        if (member.PrincipalType === PrincipalType.SharePointGroup) {
+          for (const principal of await this.getGroupPrincipals(member.Id)) {
+            principals.add(principal);
+          }
+        } else {
+          const principal = toPrincipal(member.LoginName);
+          if (principal) principals.add(principal);
+        }
+      }
+
+      return Array.from(principals).sort();
+    } catch (error) {
+      logger.error(`Failed to resolve permissions: ${doc.filename}`, { error: this.formatError(error) });
+      throw error;
+    }
+  }
+
+  private async getGroupPrincipals(groupId: number): Promise<string[]> {
+    const cached = this.groupPrincipals.get(groupId);
+    if (cached) return cached;
+
+    const group = this.sp!.web.siteGroups.getById(groupId);
+    const users: any[] = await withRetry(() => group.users.select('LoginName')(), {
+      label: `read members of group ${groupId}`,
+    });
+    const principals = users
+      .map((user) => toPrincipal(user.LoginName))
+      .filter((principal): principal is string => principal !== null);
+
+    this.groupPrincipals.set(groupId, principals);
+    return principals;
+  }
+
+  async downloadDocument(doc: DocumentMetadata): Promise<Buffer> {
+    if (!this.initialized || !this.sp) {
+      throw new Error('SharePoint client not initialized');
+    }
+
+    if (doc.contentType === SITE_PAGE_CONTENT_TYPE) {
+      return this.downloadSitePage(doc);
+    }
+
+    const serverRelativeUrl = doc.path;
+
+    try {
+      logger.debug(`Downloading document: ${serverRelativeUrl}`, { version: doc.version });
+
+      const sp = this.sp!;
+      const versionId = doc.versionId;
+      const file = await withRetry(
+        () => {
+          const current = sp.web.getFileByServerRelativePath(serverRelativeUrl);
+          return versionId === undefined ? current.getBuffer() : current.versions.getById(versionId).getBuffer();
+        },
+        { label: `download ${doc.filename}` }
+      );
+      
+      logger.debug(`Downloaded ${file.byteLength} bytes`);
+      return Buffer.from(file);
+    } catch (error) {
+      logger.error(`Failed to download document: ${serverRelativeUrl}`, { error: this.formatError(error) });
+      throw error;
+    }
+  }
+
+  async getDocument(lookup: DocumentLookup): Promise<DocumentMetadata | null> {
+    if (!this.initialized || !this.sp) {
+      throw new Error('SharePoint client not initialized');
+    }
+
+    const sp = this.sp;
+    const list = sp.web.lists.getByTitle(this.source.libraryName);
+
+    try {
+      let itemId = lookup.itemId;
+      let serverRelativeUrl: string | undefined;
+
+      if (itemId === undefined) {
+        const url = new URL(lookup.url);
+        if (url.origin !== new URL(this.source.siteUrl).origin) return null;
+
+        serverRelativeUrl = decodeURIComponent(url.pathname);
+        const fileItem = await withRetry(
+          () => sp.web.getFileByServerRelativePath(serverRelativeUrl!).listItemAllFields.select('Id')(),
+          { label: `look up ${serverRelativeUrl}` }
+        );
+        itemId = fileItem.Id;
+      }
+
+      const item = await withRetry(
+        () => list.items.getById(itemId!).select(...this.itemFields).expand(...this.itemExpand)(),
+        { label: `read item ${itemId}` }
+      );
+
+      // A file in another library of the same site resolves to an item id that
+      // may exist in this library too, so compare the URLs
+      if (serverRelativeUrl && item.File?.ServerRelativeUrl?.toLowerCase() !== serverRelativeUrl.toLowerCase()) {
+        return null;
+      }
+      if (!this.isInScope(item)) return null;
+
+      return await this.resolveVersion(this.toDocumentMetadata(item));
+    } catch (error) {
+      if ((error as any)?.status === 404) return null;
+      logger.error(`Failed to look up document: ${lookup.url}`, { error: this.formatError(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the title, description and canvas of a site page. The .aspx file
+   * itself is only a stub; modern pages keep their content in CanvasContent1
+   * and classic wiki pages in WikiField.
+   */
+  private async downloadSitePage(doc: DocumentMetadata): Promise<Buffer> {
+    if (doc.itemId === undefined) {
+      throw new Error(`Cannot read a site page without a list item id: ${doc.filename}`);
+    }
+
+    try {
+      logger.debug(`Reading site page: ${doc.path}`);
+
+      const item = this.sp!.web.lists.getByTitle(this.source.libraryName).items.getById(doc.itemId);
+      // Item versions carry the field values of that version of the page
+      const versionId = doc.versionId;
+      const fields = await withRetry(
+        () => (versionId === undefined ? item : item.versions.getById(versionId))
+          .select('Title', 'Description', 'CanvasContent1', 'WikiField')(),
+        { label: `read page ${doc.filename}` }
+      );
+
+      const page: SitePageContent = {
+        title: fields.Title || doc.title || doc.filename,
+        description: fields.Description || undefined,
+        html: fields.CanvasContent1 ?? fields.WikiField ?? '',
+      };
+      return Buffer.from(JSON.stringify(page), 'utf-8');
+    } catch (error) {
+      logger.error(`Failed to read site page: ${doc.path}`, { error: this.formatError(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * For publishedOnly sources, points a document with a draft (minor version)
+   * on top at its latest published major version. Version history keeps
+   * earlier versions only, so it is read just for drafts. Documents without
+   * any published version are marked unpublished.
+   */
+  private async resolveVersion(doc: DocumentMetadata): Promise<DocumentMetadata> {
+    if (!this.source.publishedOnly || doc.version?.endsWith('.0')) return doc;
+
+    try {
+      const sp = this.sp!;
+      const versions: any[] = await withRetry(
+        () => sp.web.getFileByServerRelativePath(doc.path).versions.select('ID', 'VersionLabel', 'Created', 'Size')(),
+        { label: `read versions of ${doc.filename}` }
+      );
+
+      const published = versions
+        .filter((version) => version.VersionLabel.endsWith('.0'))
+        .sort((a, b) => b.ID - a.ID)[0];
+      if (!published) {
+        return { ...doc, unpublished: true };
+      }
+
+      return {
+        ...doc,
+        version: published.VersionLabel,
+        versionId: published.ID,
+        modified: new Date(published.Created),
+        size: published.Size,
+      };
+    } catch (error) {
+      // Keep serving the indexed version rather than failing the whole listing
+      logger.warn(`Failed to read versions, keeping indexed version: ${doc.filename}`, {
+        error: this.formatError(error),
+      });
+      return { ...doc, unpublished: true };
+    }
+  }
+
+  /**
+   * Applies the source's folder scope, recursion setting, supported file
+   * types and include/exclude filename patterns. Folders have no File.
+   */
+  private isInScope(item: any): boolean {
+    if (!item.File) return false;
+
+    const extension = item.File.Name.toLowerCase().split('.').pop();
+    if (!LIST_EXTENSIONS.includes(extension)) return false;
+
+    // Web part pages and other .aspx files without page content are skipped
+    if (extension === PAGE_EXTENSION && item.CanvasContent1 == null && item.WikiField == null) return false;
+
+    if (this.scopeUrl) {
+      const dir = (item.FileDirRef ?? '').toLowerCase();
+      const scope = this.scopeUrl.toLowerCase();
+      const inScope = this.source.recursive
+        ? dir === scope || dir.startsWith(`${scope}/`)
+        : dir === scope;
+      if (!inScope) return false;
+    }
+
+    return matchesFilePatterns(item.File.Name, this.source.include, this.source.exclude);
+  }
+
+  private toDocumentMetadata(item: any): DocumentMetadata {
+    const isPage = item.File.Name.toLowerCase().endsWith(`.${PAGE_EXTENSION}`);
+
+    return {
+      id: item.File.UniqueId || item.Id.toString(),
+      itemId: item.Id,
+      sourceId: this.source.id,
+      filename: item.File.Name,
+      url: `${new URL(this.source.siteUrl).origin}${item.File.ServerRelativeUrl}`,
+      path: item.File.ServerRelativeUrl,
+      modified: new Date(item.File.TimeLastModified),
+      size: item.File.Length,
+      contentType: isPage ? SITE_PAGE_CONTENT_TYPE : getContentType(item.File.Name),
+      title: isPage ? item.Title || item.File.Name.replace(/\.aspx$/i, '') : undefined,
+      version: `${item.File.MajorVersion}.${item.File.MinorVersion}`,
+      site: this.source.siteUrl,
+      library: this.source.libraryName,
+      columns: this.source.columns.length > 0 ? this.readColumns(item) : undefined,
+    };
+  }
+
+  /**
+   * Reads the configured columns of a list item. Empty values are left out,
+   * since Pinecone metadata cannot hold nulls.
+   */
+  private readColumns(item: any): Record<string, ColumnValue> {
+    const columns: Record<string, ColumnValue> = {};
+
+    for (const column of this.source.columns) {
+      const raw = item[column.field];
+      // FieldValuesAsText escapes underscores in internal names as _x005f_
+      const text: string | undefined =
+        item.FieldValuesAsText?.[column.field] ?? item.FieldValuesAsText?.[column.field.replace(/_/g, '_x005f_')];
+
+      let value: ColumnValue | undefined;
+      switch (column.type) {
+        case 'date': {
+          const time = raw ? Date.parse(raw) : NaN;
+          value = Number.isNaN(time) ? undefined : time;
+          break;
+        }
+        case 'number': {
+          const number = raw === null || raw === undefined || raw === '' ? NaN : Number(raw);
+          value = Number.isNaN(number) ? undefined : number;
+          break;
+        }
+        case 'boolean':
+          value = typeof raw === 'boolean' ? raw : undefined;
+          break;
+        case 'multi': {
+          const values: string[] = Array.isArray(raw) && raw.every((v) => typeof v === 'string')
+            ? raw
+            : (text ?? '').split(';').map((v) => v.trim()).filter(Boolean);
+          value = values.length > 0 ? values : undefined;
+          break;
+        }
+        default:
+          value = text || (typeof raw === 'string' ? raw : undefined) || undefined;
+      }
+
+      if (value !== undefined) {
+        columns[column.name] = value;
+      }
+    }
+
+    return columns;
+  }
+}
@@ -0,0 +1,37 @@
+import { toPrincipal } from './sharepoint-principals';
+
+const GROUP_ID = '3f2504e0-4f89-11d3-9a0c-0305e82c3301';
+
+describe('toPrincipal', () => {
+  it('maps users to their lower-cased UPN', () => {
+    expect(toPrincipal('i:0#.f|membership|Jane.Doe@Contoso.com')).toBe('user:jane.doe@contoso.com');
+  });
+
+  it.each([
+    ['an Entra ID security group', `c:0t.c|tenant|${GROUP_ID}`],
+    ['a Microsoft 365 group', `c:0o.c|federateddirectoryclaimprovider|${GROUP_ID}`],
+    ['the owners of a Microsoft 365 group', `c:0o.c|federateddirectoryclaimprovider|${GROUP_ID}_o`],
+    ['an upper-case group id', `c:0t.c|tenant|${GROUP_ID.toUpperCase()}`],
+  ])('maps %s to its object id', (_, loginName) => {
+    expect(toPrincipal(loginName)).toBe(`group:${GROUP_ID}`);
+  });
+
+  it('maps "Everyone" to everyone', () => {
+    expect(toPrincipal('c:0(.s|true')).toBe('everyone');
+  });
+
+  it('keeps guests out of "Everyone except external users"', () => {
+    expect(toPrincipal('c:0-.f|rolemanager|spo-grid-all-users/72f988bf-86f1-41af-91ab-2d7cd011db47')).toBe(
+      'everyone-except-external'
+    );
+  });
+
+  it.each([
+    ['an app principal', 'i:0i.t|00000003-0000-0ff1-ce00-000000000000|app@sharepoint'],
+    ['the system account', 'SHAREPOINT\\system'],
+    ['a group with a malformed id', 'c:0t.c|tenant|not-a-guid'],
+    ['an empty login', ''],
+  ])('returns null for %s', (_, loginName) => {
+    expect(toPrincipal(loginName)).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Maps a SharePoint claims login name to the principal format stored on
+ * chunks: `user:<upn>`, `group:<entra object id>`, `everyone` or
+ * `everyone-except-external` (members of the tenant, but not guests). Returns
+ * null for principals a chat user can never match (e.g. app principals).
+ */
+export function toPrincipal(loginName: string): string | null {
+  const login = (loginName ?? '').toLowerCase();
+
+  if (login === 'c:0(.s|true') {
+    return 'everyone';
+  }
+  if (login.startsWith('c:0-.f|rolemanager|spo-grid-all-users')) {
+    return 'everyone-except-external';
+  }
+
+  const user = login.match(/^i:0#\.f\|membership\|(.+)$/);
+  if (user) return `user:${user[1]}`;
+
+  // Entra ID security groups and Microsoft 365 groups (owners carry an _o suffix)
+  const group = login.match(/^c:0[ot]\.c\|(?:tenant|federateddirectoryclaimprovider)\|([0-9a-f-]{36})(?:_o)?$/);
+  if (group) return `group:${group[1]}`;
+
+  return null;
+}
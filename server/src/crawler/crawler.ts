@@ -0,0 +1,976 @@
+import { ContentConnector, DocumentLookup, createConnector } from './connectors';
+import { DocumentProcessor } from './document-processor';
+import { Indexer } from './indexer';
+import { IndexInspector } from './index-inspector';
+import { CrawlManifest } from './manifest';
+import { CheckpointMode, CrawlCheckpoint, CrawlTotals } from './checkpoint';
+import { forEachConcurrent } from './concurrency';
+import { CrawlProgressReporter } from './progress-reporter';
+import { computeFingerprint, similarity } from './fingerprint';
+import { VectorStore } from '../shared/vector-store';
+import { CrawlRunHistory } from '../shared/run-history';
+import { CrawlLock } from '../shared/crawl-lock';
+import { config, SourceConfig } from '../shared/config';
+import { logger } from '../shared/logger';
+import {
+  CrawlError,
+  CrawlResult,
+  CrawlRun,
+  CrawlRunStatus,
+  CrawlTrigger,
+  DocumentChanges,
+  DocumentMetadata,
+  IndexStats,
+  ManifestEntry,
+} from '../shared/types';
+
+export interface CrawlOptions {
+  /** Enumerate the whole library instead of reading the change log */
+  full?: boolean;
+  /** What to do with the checkpoint of an interrupted run (default `auto`: resume it) */
+  checkpoint?: CheckpointMode;
+  /** Recorded in the run history (default `cli`) */
+  trigger?: CrawlTrigger;
+  /** Write progress events to stdout for the API to relay (see shared/crawl-events.ts) */
+  progress?: boolean;
+  /** Only crawl these source ids (default: all configured sources) */
+  sources?: string[];
+}
+
+/** What a crawl of one source would do, from the listing metadata alone (see plan()) */
+export interface CrawlPlan {
+  sourceId: string;
+  /** `changes` when the change log would be read, `full` when the source would be enumerated */
+  mode: 'full' | 'changes';
+  added: DocumentMetadata[];
+  /** Changed according to the listing; some may turn out unchanged once downloaded and hashed */
+  updated: DocumentMetadata[];
+  deleted: ManifestEntry[];
+  unchanged: number;
+  /** Documents without a published version, whose indexed version is kept */
+  unpublished: number;
+}
+
+/** Result of reindex() and purge() */
+export interface MaintenanceResult<T> {
+  /** Documents the targets resolved to; changed unless it was a dry run */
+  documents: T[];
+  /** Targets that did not match a document */
+  notFound: string[];
+  /** Documents re-indexed or purged without an error */
+  succeeded: number;
+  errors: CrawlError[];
+}
+
+// Minimum time between checkpoint writes while documents are being processed
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+type Fingerprinted = Pick<ManifestEntry, 'fingerprint' | 'principals'>;
+
+/** A document being indexed, which similar documents wait for (see findCanonical()) */
+interface InFlightDocument extends Fingerprinted {
+  done: Promise<void>;
+}
+
+/**
+ * Near-duplicates: at least DEDUP_THRESHOLD similar and readable by the same
+ * people, so serving one for the other never shows anyone a document they
+ * could not open.
+ */
+function isCopy(a: Fingerprinted, b: Fingerprinted): boolean {
+  return !!a.fingerprint && !!b.fingerprint
+    && JSON.stringify(a.principals ?? null) === JSON.stringify(b.principals ?? null)
+    && similarity(a.fingerprint, b.fingerprint) >= config.dedup.threshold;
+}
+
+/**
+ * Incremental crawl: only new or changed documents are downloaded and
+ * re-embedded, and vectors of documents that disappeared from the library are
+ * deleted. The index is never cleared, so it stays queryable during a run.
+ *
+ * Up to CRAWLER_CONCURRENCY documents move through download → extract →
+ * chunk → embed → upsert at the same time. Each document is upserted as soon
+ * as it is processed and then dropped, so memory use does not grow with the
+ * size of the library. Text is extracted in worker threads (ExtractionPool),
+ * and documents over an extraction limit are recorded as errors.
+ *
+ * Every configured source (a SharePoint library or a local folder, see
+ * connectors/) is crawled in turn. When a change
+ * token from a previous run is available the crawler reads the list change log
+ * instead of enumerating the library.
+ *
+ * Near-duplicate documents (copies across folders and libraries) are
+ * indexed once: later copies get no vectors of their own and are listed as
+ * `alternateUrls` on the chunks of the first one, their canonical document.
+ *
+ * Progress is checkpointed per document together with the manifest, so a run
+ * that dies halfway resumes where it stopped instead of starting over. Each
+ * run, including its per-document errors, is kept in the run history.
+ *
+ * stop() ends a run gracefully: documents already in flight are finished,
+ * nothing new is started and no deletions are applied, so the index holds
+ * either the previous state of a document or its new one.
+ *
+ * plan(), reindex() and purge() back the CLI's --dry-run, reindex and purge
+ * commands (see index.ts).
+ */
+export class Crawler {
+  private processor = new DocumentProcessor();
+  private indexer = new Indexer();
+  private manifest = new CrawlManifest();
+  private checkpoint = new CrawlCheckpoint();
+  private history = new CrawlRunHistory();
+  private lock = new CrawlLock();
+  private trigger: CrawlTrigger = 'cli';
+  private progress = new CrawlProgressReporter(false, () => this.totals);
+  private stopRequested = false;
+  private interrupted = false;
+  private sourceIds?: string[];
+  private lastCheckpointAt = 0;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private inFlight = new Map<string, InFlightDocument>();
+
+  private totals: CrawlTotals = {
+    documentsProcessed: 0,
+    documentsSkipped: 0,
+    documentsUnchanged: 0,
+    documentsDeleted: 0,
+    errors: [],
+  };
+
+  async run(options: CrawlOptions = {}): Promise<CrawlResult> {
+    return this.withLock(() => this.crawl(options));
+  }
+
+  private async crawl(options: CrawlOptions): Promise<CrawlResult> {
+    this.selectSources(options.sources);
+    this.sourceIds = options.sources?.length ? options.sources : undefined;
+
+    await this.manifest.load();
+
+    const resumed = await this.checkpoint.begin(options.checkpoint ?? 'auto', options.full ?? false, this.sourceIds);
+    const full = this.checkpoint.full;
+    if (resumed) {
+      this.totals = this.checkpoint.totals;
+    }
+
+    this.trigger = options.trigger ?? 'cli';
+    this.progress = new CrawlProgressReporter(options.progress ?? false, () => this.totals);
+    this.progress.start(this.checkpoint.runId);
+    await this.history.markInterrupted(this.checkpoint.runId);
+    await this.history.save(this.runRecord('running'));
+
+    try {
+      await this.crawlSources(full);
+    } catch (error) {
+      // The checkpoint is kept, so the next run resumes this one under the same id
+      await this.history.save(this.runRecord('failed', new Date(), error));
+      throw error;
+    }
+
+    this.progress.finish();
+
+    const startTime = this.checkpoint.startedAt;
+    const endTime = new Date();
+
+    if (this.interrupted) {
+      // The checkpoint is kept, so the next run resumes this one under the same id
+      await this.history.save(this.runRecord('interrupted', endTime));
+    } else {
+      // A cancelled run is not resumed: the next run starts fresh and the
+      // manifest lets it skip whatever this one already indexed
+      await this.history.save(this.runRecord(this.stopRequested ? 'cancelled' : 'completed', endTime));
+      await this.checkpoint.clear();
+    }
+    await this.history.prune();
+
+    return {
+      ...this.totals,
+      startTime,
+      endTime,
+      duration: endTime.getTime() - startTime.getTime(),
+      cancelled: this.stopRequested && !this.interrupted,
+      interrupted: this.interrupted,
+    };
+  }
+
+  /**
+   * Works out what a crawl would add, update and delete without downloading
+   * documents or writing to Pinecone, the manifest or the run history.
+   */
+  async plan(options: Pick<CrawlOptions, 'full' | 'sources'> = {}): Promise<CrawlPlan[]> {
+    const sources = this.selectSources(options.sources);
+    await this.manifest.load();
+
+    const plans: CrawlPlan[] = [];
+    for (const source of sources) {
+      const connector = createConnector(source);
+      await connector.initialize();
+      plans.push(await this.planSource(connector, options.full ?? false));
+    }
+    return plans;
+  }
+
+  /**
+   * Downloads and re-indexes single documents, whether or not they changed.
+   * Targets are document ids or URLs; a URL also finds documents that are
+   * not indexed yet, e.g. because they failed in every crawl.
+   */
+  async reindex(targets: string[], dryRun = false): Promise<MaintenanceResult<DocumentMetadata>> {
+    return dryRun ? this.reindexDocuments(targets, true) : this.withLock(() => this.reindexDocuments(targets, false));
+  }
+
+  private async reindexDocuments(targets: string[], dryRun: boolean): Promise<MaintenanceResult<DocumentMetadata>> {
+    await this.manifest.load();
+
+    const documents: DocumentMetadata[] = [];
+    const notFound: string[] = [];
+    const connectors = new Map<string, ContentConnector>();
+    let succeeded = 0;
+
+    for (const target of targets) {
+      const found = await this.findDocument(target, connectors);
+      if (!found) {
+        notFound.push(target);
+        continue;
+      }
+
+      const [connector, doc] = found;
+      documents.push(doc);
+      if (dryRun) continue;
+
+      if (doc.unpublished) {
+        this.recordError(doc.filename, new Error('No published version to index'));
+        continue;
+      }
+      if (await this.indexDocument(connector, doc, false, true)) {
+        succeeded++;
+      }
+    }
+
+    if (!dryRun) {
+      await this.manifest.save();
+    }
+    return { documents, notFound, succeeded, errors: this.totals.errors };
+  }
+
+  /**
+   * Deletes the vectors of indexed documents, by document id or URL. A
+   * document that is still in its source is indexed again by the next full
+   * crawl unless an exclude pattern keeps it out.
+   */
+  async purge(targets: string[], dryRun = false): Promise<MaintenanceResult<ManifestEntry>> {
+    return dryRun ? this.purgeDocuments(targets, true) : this.withLock(() => this.purgeDocuments(targets, false));
+  }
+
+  private async purgeDocuments(targets: string[], dryRun: boolean): Promise<MaintenanceResult<ManifestEntry>> {
+    await this.manifest.load();
+
+    const documents: ManifestEntry[] = [];
+    const notFound: string[] = [];
+    for (const target of targets) {
+      const entry = this.manifest.get(target) ?? this.manifest.findByUrl(target);
+      if (entry) {
+        documents.push(entry);
+      } else {
+        notFound.push(target);
+      }
+    }
+
+    let succeeded = 0;
+    if (!dryRun) {
+      succeeded = await this.removeDocuments(documents);
+      await this.manifest.save();
+    }
+    return { documents, notFound, succeeded, errors: this.totals.errors };
+  }
+
+  /**
+   * Requests a graceful stop; run() resolves once in-flight documents are done.
+   * A cancelled run is over. An interrupted run (the process is shutting
+   * down, e.g. for a container restart) keeps its checkpoint and is resumed
+   * by the next run.
+   */
+  stop(interrupt = false): void {
+    if (this.stopRequested) return;
+    this.stopRequested = true;
+    this.interrupted = interrupt;
+    logger.info(`${interrupt ? 'Interrupt' : 'Cancel'} requested; finishing documents in progress`);
+  }
+
+  /** Runs work that writes the manifest while no other crawler does (see CrawlLock) */
+  private async withLock<T>(work: () => Promise<T>): Promise<T> {
+    await this.lock.acquire();
+    try {
+      return await work();
+    } finally {
+      await this.lock.release();
+    }
+  }
+
+  private async crawlSources(full: boolean): Promise<void> {
+    for (const source of config.crawler.sources) {
+      if (this.stopRequested) break;
+      if (this.sourceIds && !this.sourceIds.includes(source.id)) continue;
+
+      if (this.checkpoint.isSourceCompleted(source.id)) {
+        logger.info(`Source ${source.id} already completed in this run; skipping`);
+        continue;
+      }
+
+      try {
+        await this.crawlSource(source, full);
+      } catch (error) {
+        // One unreachable site must not stop the other sources from being crawled
+        this.recordError(`[source ${source.id}]`, error);
+      }
+
+      // A source stopped halfway is not complete and keeps its previous change token
+      if (this.stopRequested) {
+        await this.saveProgress(true);
+        break;
+      }
+
+      this.checkpoint.completeSource(source.id);
+      await this.saveProgress(true);
+    }
+
+    // Only once every source was listed is a vector the manifest does not know about stale
+    const sourceFailed = this.totals.errors.some((error) => error.filename.startsWith('[source '));
+    if (this.manifest.sweepPending && !this.sourceIds && !this.stopRequested && !sourceFailed) {
+      await this.sweepIndex();
+    }
+
+    const stats: IndexStats = {
+      totalDocuments: this.manifest.size,
+      totalChunks: this.manifest.totalChunks,
+      lastUpdated: new Date(),
+      indexSize: 0,
+    };
+
+    logger.info('Updating Pinecone index metadata');
+    const vectorStoreManager = new VectorStore();
+    await vectorStoreManager.save(this.indexer.getVectorStore(), stats);
+  }
+
+  /**
+   * Deletes the vectors the manifest does not know about, left in an index
+   * that was built without it (see CrawlManifest.sweepPending).
+   */
+  private async sweepIndex(): Promise<void> {
+    const orphans = await new IndexInspector().orphans();
+    if (orphans === null) {
+      logger.warn('Could not list the vectors in the index; vectors of documents deleted before the manifest existed may remain');
+    } else if (orphans.length > 0) {
+      await this.indexer.deleteVectors(orphans);
+      logger.info(`Deleted ${orphans.length} vectors the crawl manifest does not know about`);
+    }
+
+    this.manifest.markSwept();
+    await this.manifest.save();
+  }
+
+  private selectSources(ids?: string[]): SourceConfig[] {
+    const unknown = ids?.filter((id) => !config.crawler.sources.some((source) => source.id === id));
+    if (unknown?.length) {
+      throw new Error(`Unknown source: ${unknown.join(', ')}`);
+    }
+    return ids?.length
+      ? config.crawler.sources.filter((source) => ids.includes(source.id))
+      : config.crawler.sources;
+  }
+
+  /** Documents of a listing not already handled before an interruption */
+  private countPending(connector: ContentConnector, documents: DocumentMetadata[]): number {
+    return documents.filter((doc) => !this.checkpoint.isDocumentHandled(connector.sourceId, doc.id)).length;
+  }
+
+  private runRecord(status: CrawlRunStatus, endTime?: Date, error?: unknown): CrawlRun {
+    const startTime = this.checkpoint.startedAt;
+
+    return {
+      id: this.checkpoint.runId,
+      trigger: this.trigger,
+      status,
+      full: this.checkpoint.full,
+      sources: this.sourceIds,
+      ...this.totals,
+      startTime,
+      endTime,
+      duration: endTime ? endTime.getTime() - startTime.getTime() : undefined,
+      error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  private async crawlSource(source: SourceConfig, full: boolean): Promise<void> {
+    logger.info(`Crawling source ${source.id} (${source.type})`);
+
+    const connector = createConnector(source);
+    await connector.initialize();
+
+    if (!connector.getCurrentChangeToken || !connector.getChanges) {
+      await this.crawlAll(connector);
+      return;
+    }
+
+    // Captured before reading anything so changes made during the run are
+    // picked up again by the next one. A resumed run reuses the token from
+    // its checkpoint so it replays the same slice of the change log.
+    let currentToken = this.checkpoint.getChangeToken(source.id);
+    if (!currentToken) {
+      currentToken = await connector.getCurrentChangeToken();
+      this.checkpoint.setChangeToken(source.id, currentToken);
+      await this.saveProgress(true);
+    }
+    const lastToken = full ? undefined : this.manifest.getChangeToken(source.id);
+
+    const changes = lastToken ? await this.readChanges(connector, lastToken, currentToken) : null;
+
+    if (changes && !changes.requiresFullCrawl) {
+      await this.applyChanges(connector, changes);
+    } else {
+      await this.crawlAll(connector);
+    }
+
+    if (this.stopRequested) return;
+    this.manifest.setChangeToken(source.id, currentToken);
+  }
+
+  private async readChanges(
+    connector: ContentConnector,
+    sinceToken: string,
+    untilToken: string
+  ): Promise<DocumentChanges | null> {
+    try {
+      const changes = await connector.getChanges!(sinceToken, untilToken);
+      if (changes.requiresFullCrawl) {
+        logger.info('Change log cannot be applied (expired change token or renamed folders); running a full crawl');
+      }
+      return changes;
+    } catch (error) {
+      logger.warn('Could not read the change log; running a full crawl', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return null;
+    }
+  }
+
+  private async planSource(connector: ContentConnector, full: boolean): Promise<CrawlPlan> {
+    const lastToken = full || !connector.getChanges ? undefined : this.manifest.getChangeToken(connector.sourceId);
+    const changes = lastToken
+      ? await this.readChanges(connector, lastToken, await connector.getCurrentChangeToken!())
+      : null;
+    const fromChangeLog = !!changes && !changes.requiresFullCrawl;
+
+    const documents = fromChangeLog ? changes.upserted : await connector.listDocuments();
+    const plan: CrawlPlan = {
+      sourceId: connector.sourceId,
+      mode: fromChangeLog ? 'changes' : 'full',
+      added: [],
+      updated: [],
+      deleted: fromChangeLog ? this.deletedEntries(changes) : this.unlistedEntries(connector, documents),
+      unchanged: 0,
+      unpublished: 0,
+    };
+
+    for (const doc of documents) {
+      if (doc.unpublished) {
+        plan.unpublished++;
+      } else if (!this.manifest.get(doc.id)) {
+        plan.added.push(doc);
+      } else if (this.manifest.isUnchanged(doc)) {
+        plan.unchanged++;
+      } else {
+        plan.updated.push(doc);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Resolves a reindex target to its source and current metadata: an indexed
+   * document by id or URL, otherwise a URL looked up in every source.
+   */
+  private async findDocument(
+    target: string,
+    connectors: Map<string, ContentConnector>
+  ): Promise<[ContentConnector, DocumentMetadata] | null> {
+    const entry = this.manifest.get(target) ?? this.manifest.findByUrl(target);
+    if (!entry && !/^(https?|file):/i.test(target)) {
+      logger.warn(`Not an indexed document id or a URL: ${target}`);
+      return null;
+    }
+
+    const lookup: DocumentLookup = entry
+      ? { url: entry.url, itemId: entry.itemId, path: entry.path }
+      : { url: target };
+    const sources = entry
+      ? config.crawler.sources.filter((source) => source.id === entry.sourceId)
+      : config.crawler.sources;
+
+    for (const source of sources) {
+      let connector = connectors.get(source.id);
+      if (!connector) {
+        connector = createConnector(source);
+        await connector.initialize();
+        connectors.set(source.id, connector);
+      }
+
+      const doc = await connector.getDocument(lookup);
+      if (doc) return [connector, doc];
+    }
+
+    logger.warn(entry ? `No longer in source ${entry.sourceId}: ${target}` : `Not found in any source: ${target}`);
+    return null;
+  }
+
+  private async crawlAll(connector: ContentConnector): Promise<void> {
+    const documents = await connector.listDocuments();
+    const indexable = this.withoutUnpublished(documents);
+    logger.info(`Found ${documents.length} documents to process`);
+    this.progress.discovered(this.countPending(connector, indexable));
+
+    await forEachConcurrent(indexable, config.crawler.concurrency, (docMetadata) =>
+      this.crawlDocument(connector, docMetadata, true)
+    );
+
+    // Documents not reached before a stop would all look deleted
+    if (this.stopRequested) return;
+
+    await this.removeDocuments(this.unlistedEntries(connector, documents));
+  }
+
+  /** Indexed documents of a source that are missing from its full listing */
+  private unlistedEntries(connector: ContentConnector, documents: DocumentMetadata[]): ManifestEntry[] {
+    // An empty listing is far more likely a permissions or config problem than
+    // a library that was emptied, so never treat it as "delete everything"
+    if (documents.length === 0) {
+      if (this.manifest.size > 0) {
+        logger.warn('Source listing returned no documents; skipping deletion of indexed documents');
+      }
+      return [];
+    }
+
+    const currentIds = new Set(documents.map((doc) => doc.id));
+    return this.manifest.entries().filter((entry) => entry.sourceId === connector.sourceId && !currentIds.has(entry.id));
+  }
+
+  /** Indexed documents among the deletes of a change log */
+  private deletedEntries(changes: DocumentChanges): ManifestEntry[] {
+    return changes.deleted
+      .map((ref) => this.manifest.find(ref))
+      .filter((entry): entry is ManifestEntry => entry !== undefined);
+  }
+
+  private async applyChanges(connector: ContentConnector, changes: DocumentChanges): Promise<void> {
+    logger.info(`Applying ${changes.upserted.length + changes.deleted.length} changes from the change log`);
+    const upserted = this.withoutUnpublished(changes.upserted);
+    this.progress.discovered(this.countPending(connector, upserted));
+
+    await forEachConcurrent(upserted, config.crawler.concurrency, (docMetadata) =>
+      this.crawlDocument(connector, docMetadata)
+    );
+
+    await this.removeDocuments(this.deletedEntries(changes));
+  }
+
+  /**
+   * Documents without a published version are neither indexed nor deleted, so
+   * the version indexed before (if any) keeps being served.
+   */
+  private withoutUnpublished(documents: DocumentMetadata[]): DocumentMetadata[] {
+    const unpublished = documents.filter((doc) => doc.unpublished);
+    for (const doc of unpublished) {
+      logger.debug(`No published version, keeping indexed version: ${doc.filename}`);
+    }
+    if (unpublished.length > 0) {
+      logger.info(`${unpublished.length} documents have no published version; their indexed versions are kept`);
+    }
+    return documents.filter((doc) => !doc.unpublished);
+  }
+
+  private async crawlDocument(
+    connector: ContentConnector,
+    docMetadata: DocumentMetadata,
+    refreshPermissions = false
+  ): Promise<void> {
+    // Remaining documents are left for the next run
+    if (this.stopRequested) return;
+
+    if (this.checkpoint.isDocumentHandled(connector.sourceId, docMetadata.id)) {
+      logger.debug(`Already handled before the crawl was interrupted: ${docMetadata.filename}`);
+      return;
+    }
+
+    try {
+      this.progress.fileStarted(docMetadata.filename);
+      await this.indexDocument(connector, docMetadata, refreshPermissions);
+    } finally {
+      this.checkpoint.markDocumentHandled(connector.sourceId, docMetadata.id);
+      await this.saveProgress();
+    }
+  }
+
+  /**
+   * @param refreshPermissions re-read the permissions of unchanged documents.
+   *   Permission changes do not touch a file's modified date, so full crawls
+   *   use this to keep security trimming metadata current.
+   * @param force re-index even if the document looks unchanged (see reindex()).
+   * @returns false when the document failed and was recorded as an error
+   */
+  private async indexDocument(
+    connector: ContentConnector,
+    docMetadata: DocumentMetadata,
+    refreshPermissions: boolean,
+    force = false
+  ): Promise<boolean> {
+    // Documents from connectors without permission support get no principals
+    // and are therefore never returned when trimming is enabled
+    const trimming = config.security.trimming && !!connector.getDocumentPrincipals;
+
+    if (!force && this.manifest.isUnchanged(docMetadata)) {
+      if (trimming && refreshPermissions) {
+        await this.refreshPrincipals(connector, docMetadata);
+      }
+      await this.refreshColumns(docMetadata);
+      this.totals.documentsUnchanged++;
+      this.progress.fileFinished(docMetadata.filename, 'unchanged');
+      logger.debug(`Unchanged, skipping: ${docMetadata.filename}`);
+      return true;
+    }
+
+    try {
+      logger.info(`Processing: ${docMetadata.filename}`);
+
+      // Before downloading, so oversized files are never held in memory
+      this.processor.checkFileSize(docMetadata.size);
+      const buffer = await connector.downloadDocument(docMetadata);
+      const contentHash = CrawlManifest.hashContent(buffer);
+      const existing = this.manifest.get(docMetadata.id);
+
+      // Modified date moved but the bytes are identical (e.g. a metadata-only edit)
+      if (!force && existing && existing.contentHash === contentHash && existing.path === docMetadata.path
+        && !this.manifest.dedupChanged(existing)) {
+        this.manifest.set({
+          ...existing,
+          modified: docMetadata.modified.toISOString(),
+          size: docMetadata.size,
+          version: docMetadata.version,
+        });
+        if (docMetadata.version && docMetadata.version !== existing.version) {
+          await this.indexer.updateDocumentMetadata(existing.id, existing.chunkCount, { version: docMetadata.version });
+        }
+        if (trimming) {
+          await this.refreshPrincipals(connector, docMetadata);
+        }
+        await this.refreshColumns(docMetadata);
+        this.totals.documentsUnchanged++;
+        this.progress.fileFinished(docMetadata.filename, 'unchanged');
+        logger.debug(`Content unchanged, skipping: ${docMetadata.filename}`);
+        return true;
+      }
+
+      if (trimming) {
+        docMetadata.principals = await connector.getDocumentPrincipals!(docMetadata);
+      }
+
+      const processedDoc = await this.processor.processDocument(buffer, docMetadata);
+      const fingerprint = config.dedup.enabled ? computeFingerprint(processedDoc.content) : undefined;
+      const canonical = fingerprint ? await this.findCanonical(docMetadata, fingerprint) : undefined;
+
+      if (fingerprint && canonical) {
+        await this.indexDuplicate(docMetadata, contentHash, fingerprint, canonical, existing);
+        return true;
+      }
+
+      // Copies of this document that are no longer similar enough are indexed on their own
+      const copy = { fingerprint, principals: docMetadata.principals };
+      const duplicates = existing ? this.manifest.duplicatesOf(existing.id) : [];
+      const released = duplicates.filter((entry) => !isCopy(entry, copy));
+      const alternateUrls = duplicates.filter((entry) => isCopy(entry, copy)).map((entry) => entry.url).sort();
+      docMetadata.alternateUrls = alternateUrls;
+
+      let finished!: () => void;
+      if (fingerprint) {
+        this.inFlight.set(docMetadata.id, { ...copy, done: new Promise((resolve) => (finished = resolve)) });
+      }
+
+      let chunkCount: number;
+      try {
+        chunkCount = await this.indexer.upsertDocument(processedDoc, existing?.chunkCount ?? 0);
+        this.manifest.set({
+          ...this.manifestEntry(docMetadata, contentHash, chunkCount),
+          fingerprint,
+          alternateUrls: alternateUrls.length > 0 ? alternateUrls : undefined,
+        });
+      } finally {
+        if (fingerprint) {
+          this.inFlight.delete(docMetadata.id);
+          finished();
+        }
+      }
+
+      // Was a copy of another document until its content changed
+      if (existing?.canonicalId) {
+        await this.updateAlternateUrls(existing.canonicalId);
+      }
+      await this.promoteDuplicates(released);
+
+      this.totals.documentsProcessed++;
+      this.progress.fileFinished(docMetadata.filename, 'processed', {
+        chunks: chunkCount,
+        boilerplateRemoved: processedDoc.boilerplateRemoved || undefined,
+      });
+      logger.info(`Successfully processed: ${docMetadata.filename}`);
+      return true;
+    } catch (error) {
+      // Previously indexed vectors (if any) are left in place until the next successful run
+      this.recordError(docMetadata.filename, error);
+      return false;
+    }
+  }
+
+  private manifestEntry(docMetadata: DocumentMetadata, contentHash: string, chunkCount: number): ManifestEntry {
+    return {
+      id: docMetadata.id,
+      itemId: docMetadata.itemId,
+      sourceId: docMetadata.sourceId,
+      filename: docMetadata.filename,
+      url: docMetadata.url,
+      path: docMetadata.path,
+      modified: docMetadata.modified.toISOString(),
+      size: docMetadata.size,
+      contentHash,
+      chunkCount,
+      principals: docMetadata.principals,
+      columns: docMetadata.columns,
+      version: docMetadata.version,
+      deduplicated: config.dedup.enabled,
+      indexedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * The indexed document a document is a near-duplicate of, if any. Copies
+   * usually sit next to each other in a listing and are processed at the
+   * same time, so a similar document still being indexed is waited for.
+   */
+  private async findCanonical(docMetadata: DocumentMetadata, fingerprint: string): Promise<ManifestEntry | undefined> {
+    const copy = { fingerprint, principals: docMetadata.principals };
+    for (;;) {
+      const canonical = this.manifest.canonicalCandidates(fingerprint)
+        .filter((entry) => entry.id !== docMetadata.id && isCopy(entry, copy))
+        .sort((a, b) => similarity(b.fingerprint!, fingerprint) - similarity(a.fingerprint!, fingerprint))[0];
+      if (canonical) return canonical;
+
+      const pending = Array.from(this.inFlight.entries())
+        .find(([id, other]) => id !== docMetadata.id && isCopy(other, copy));
+      if (!pending) return undefined;
+      await pending[1].done;
+    }
+  }
+
+  /**
+   * Records a near-duplicate without vectors of its own and lists it on its
+   * canonical document. Copies grouped under it so far move along with it.
+   */
+  private async indexDuplicate(
+    docMetadata: DocumentMetadata,
+    contentHash: string,
+    fingerprint: string,
+    canonical: ManifestEntry,
+    existing: ManifestEntry | undefined
+  ): Promise<void> {
+    if (existing && existing.chunkCount > 0) {
+      await this.indexer.deleteDocument(existing.id, existing.chunkCount);
+    }
+    this.manifest.set({ ...this.manifestEntry(docMetadata, contentHash, 0), fingerprint, canonicalId: canonical.id });
+
+    const duplicates = this.manifest.duplicatesOf(docMetadata.id);
+    for (const entry of duplicates.filter((duplicate) => isCopy(duplicate, canonical))) {
+      this.manifest.set({ ...entry, canonicalId: canonical.id });
+    }
+
+    await this.updateAlternateUrls(canonical.id);
+    if (existing?.canonicalId && existing.canonicalId !== canonical.id) {
+      await this.updateAlternateUrls(existing.canonicalId);
+    }
+    await this.promoteDuplicates(duplicates.filter((duplicate) => !isCopy(duplicate, canonical)));
+
+    this.totals.documentsProcessed++;
+    this.progress.fileFinished(docMetadata.filename, 'processed', { chunks: 0, duplicateOf: canonical.url });
+    logger.info(`Near-duplicate of ${canonical.url}, not indexed separately: ${docMetadata.filename}`);
+  }
+
+  /** Writes the URLs of a canonical document's copies to its chunks when they changed */
+  private async updateAlternateUrls(canonicalId: string): Promise<void> {
+    const canonical = this.manifest.get(canonicalId);
+    if (!canonical) return;
+
+    const alternateUrls = this.manifest.duplicatesOf(canonicalId).map((entry) => entry.url).sort();
+    if (JSON.stringify(alternateUrls) === JSON.stringify(canonical.alternateUrls ?? [])) return;
+
+    try {
+      await this.indexer.updateDocumentMetadata(canonical.id, canonical.chunkCount, { alternateUrls });
+      this.manifest.set({ ...canonical, alternateUrls: alternateUrls.length > 0 ? alternateUrls : undefined });
+    } catch (error) {
+      this.recordError(canonical.filename, error);
+    }
+  }
+
+  /**
+   * Indexes copies whose canonical document was removed or changed. The
+   * first one indexed becomes the new canonical document of the others that
+   * are still alike. A copy that cannot be indexed now is dropped from the
+   * manifest, so the next full crawl indexes it.
+   */
+  private async promoteDuplicates(duplicates: ManifestEntry[]): Promise<void> {
+    const connectors = new Map<string, ContentConnector>();
+    for (const entry of duplicates) {
+      try {
+        const found = await this.findDocument(entry.id, connectors);
+        this.manifest.delete(entry.id);
+        if (!found) continue;
+
+        const [connector, doc] = found;
+        logger.info(`Indexing near-duplicate on its own: ${doc.filename}`);
+        await this.indexDocument(connector, doc, false, true);
+      } catch (error) {
+        this.manifest.delete(entry.id);
+        this.recordError(entry.filename, error);
+      }
+    }
+  }
+
+  /**
+   * Updates the principals stored on a document's chunks. Copies are only
+   * grouped while they are readable by the same people: a near-duplicate that
+   * no longer is gets indexed on its own, and so do the copies of a canonical
+   * document whose permissions changed.
+   */
+  private async refreshPrincipals(connector: ContentConnector, docMetadata: DocumentMetadata): Promise<void> {
+    const entry = this.manifest.get(docMetadata.id);
+    if (!entry) return;
+
+    try {
+      const principals = await connector.getDocumentPrincipals!(docMetadata);
+      if (JSON.stringify(principals) === JSON.stringify(entry.principals ?? null)) return;
+
+      const updated = { ...entry, principals };
+      const canonical = entry.canonicalId ? this.manifest.get(entry.canonicalId) : undefined;
+      if (canonical && !isCopy(updated, canonical)) {
+        logger.info(`Permissions differ from its canonical document now: ${docMetadata.filename}`);
+        await this.promoteDuplicates([entry]);
+        await this.updateAlternateUrls(canonical.id);
+        return;
+      }
+
+      await this.indexer.updateDocumentMetadata(entry.id, entry.chunkCount, { principals });
+      this.manifest.set(updated);
+      logger.info(`Updated permissions: ${docMetadata.filename}`);
+
+      await this.promoteDuplicates(this.manifest.duplicatesOf(entry.id).filter((duplicate) => !isCopy(duplicate, updated)));
+      await this.updateAlternateUrls(entry.id);
+    } catch (error) {
+      this.recordError(docMetadata.filename, error);
+    }
+  }
+
+  /**
+   * Patches column metadata when it changed without the file content changing,
+   * or when the configured columns changed since the document was indexed.
+   * Columns that are no longer set keep their old value in the index until
+   * the document is re-indexed.
+   */
+  private async refreshColumns(docMetadata: DocumentMetadata): Promise<void> {
+    const entry = this.manifest.get(docMetadata.id);
+    if (!entry || !docMetadata.columns) return;
+    if (JSON.stringify(docMetadata.columns) === JSON.stringify(entry.columns ?? {})) return;
+
+    try {
+      await this.indexer.updateDocumentMetadata(entry.id, entry.chunkCount, docMetadata.columns);
+      this.manifest.set({ ...entry, columns: docMetadata.columns });
+      logger.info(`Updated column metadata: ${docMetadata.filename}`);
+    } catch (error) {
+      this.recordError(docMetadata.filename, error);
+    }
+  }
+
+  /** @returns the number of documents removed */
+  private async removeDocuments(removed: ManifestEntry[]): Promise<number> {
+    if (removed.length === 0) return 0;
+
+    logger.info(`Removing ${removed.length} documents from the index`);
+    const removedIds = new Set(removed.map((entry) => entry.id));
+    let count = 0;
+
+    for (const entry of removed) {
+      if (this.stopRequested) break;
+
+      try {
+        await this.indexer.deleteDocument(entry.id, entry.chunkCount);
+        this.manifest.delete(entry.id);
+        this.totals.documentsDeleted++;
+        count++;
+        this.progress.fileFinished(entry.filename, 'deleted');
+        logger.info(`Removed from index: ${entry.filename}`);
+      } catch (error) {
+        this.recordError(entry.filename, error);
+        continue;
+      }
+
+      // Copies take the place of a removed canonical document
+      if (entry.canonicalId) {
+        await this.updateAlternateUrls(entry.canonicalId);
+      }
+      await this.promoteDuplicates(
+        this.manifest.duplicatesOf(entry.id).filter((duplicate) => !removedIds.has(duplicate.id))
+      );
+    }
+    return count;
+  }
+
+  /**
+   * Persists the manifest together with the checkpoint so both always
+   * describe the same set of indexed documents. Writes are throttled unless
+   * forced and chained so concurrent workers never write at the same time.
+   */
+  private saveProgress(force = false): Promise<void> {
+    const now = Date.now();
+    if (!force && now - this.lastCheckpointAt < CHECKPOINT_INTERVAL_MS) {
+      return this.pendingSave;
+    }
+    this.lastCheckpointAt = now;
+
+    const write = this.pendingSave.then(async () => {
+      await this.manifest.save();
+      await this.checkpoint.save(this.totals);
+      await this.history.save(this.runRecord('running'));
+    });
+
+    // A failed intermediate save is retried by the next one; forced saves
+    // (end of a source) surface the error to the caller
+    this.pendingSave = write.catch((error) => {
+      logger.warn('Failed to save crawl checkpoint', {
+        error: error instanceof Error ? error.message : error,
+      });
+    });
+
+    return force ? write : this.pendingSave;
+  }
+
+  private recordError(filename: string, error: unknown): void {
+    this.totals.documentsSkipped++;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    logger.error(`Failed to process: ${filename}`, { error: errorMessage });
+
+    this.totals.errors.push({
+      filename,
+      error: errorMessage,
+      timestamp: new Date(),
+    });
+    this.progress.fileFinished(filename, 'failed', { error: errorMessage });
+  }
+}
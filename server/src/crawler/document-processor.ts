@@ -1,32 +1,79 @@
-import pdfParse from 'pdf-parse';
-import mammoth from 'mammoth';
 import { DocumentMetadata, ProcessedDocument } from '../shared/types';
+import { config } from '../shared/config';
 import { logger } from '../shared/logger';
+import { removeBoilerplate } from './boilerplate';
+import { ExtractionPool } from './extraction-pool';
+import { ExtractionLimitError, ExtractionResult, extractors } from './extractors';
+
+// Text without pages that can still have a table of contents; paged formats (PDF, TIFF) always can
+const WORD_PROCESSOR_TYPES = new Set([
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword',
+  'application/rtf',
+]);
+
+// File extensions the processor can extract text from
+export const SUPPORTED_EXTENSIONS = extractors.extensions;
+
+export function getContentType(filename: string): string {
+  return extractors.contentTypeOf(filename) ?? 'application/octet-stream';
+}
 
 export class DocumentProcessor {
+  private pool = new ExtractionPool();
+
+  /** Throws an ExtractionLimitError for files larger than EXTRACTION_MAX_FILE_SIZE_MB */
+  checkFileSize(size: number): void {
+    const maxMb = config.extraction.maxFileSizeMb;
+    if (size > maxMb * 1024 * 1024) {
+      throw new ExtractionLimitError(`exceeds ${maxMb} MB (is ${(size / 1024 / 1024).toFixed(1)} MB)`);
+    }
+  }
+
   async processDocument(
     buffer: Buffer,
     metadata: DocumentMetadata
   ): Promise<ProcessedDocument> {
     try {
       logger.debug(`Processing document: ${metadata.filename}`);
+      this.checkFileSize(buffer.length);
+
+      const extractor = extractors.forContentType(metadata.contentType);
+      if (!extractor) {
+        throw new Error(`Unsupported content type: ${metadata.contentType}`);
+      }
 
-      let content: string;
-
-      switch (metadata.contentType) {
-        case 'application/pdf':
-          content = await this.processPDF(buffer);
-          break;
-        case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-        case 'application/msword':
-          content = await this.processWord(buffer);
-          break;
-        default:
-          throw new Error(`Unsupported content type: ${metadata.contentType}`);
+      let extracted: ExtractionResult;
+      try {
+        extracted = await this.pool.extract(buffer, metadata);
+      } catch (error) {
+        // The message is the whole reason, e.g. "timeout after 60s"
+        if (error instanceof ExtractionLimitError) throw error;
+        logger.error(`Failed to parse ${extractor.name}`, { error });
+        throw new Error(`${extractor.name} parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const paged = typeof extracted === 'object' && 'pages' in extracted;
+      let pages = typeof extracted === 'string' ? [extracted] : 'pages' in extracted ? extracted.pages : [extracted.text];
+
+      let boilerplateRemoved = 0;
+      if (config.extraction.removeBoilerplate) {
+        const result = removeBoilerplate(pages, {
+          contents: paged || WORD_PROCESSOR_TYPES.has(metadata.contentType),
+        });
+        pages = result.pages;
+        boilerplateRemoved = result.removedCharacters;
+        if (result.removedLines > 0) {
+          logger.debug(`Removed ${result.removedLines} lines (${result.removedCharacters} characters) of boilerplate from ${metadata.filename}`);
+        }
       }
 
       // Clean and normalize content
-      content = this.cleanText(content);
+      const { content, pageOffsets } = paged
+        ? this.joinPages(pages)
+        : { content: this.cleanText(pages[0]), pageOffsets: undefined };
+      const ocrConfidence = typeof extracted === 'object' && 'pages' in extracted ? extracted.ocrConfidence : undefined;
+      const properties = typeof extracted === 'object' && 'text' in extracted ? extracted.properties : undefined;
 
       if (!content || content.trim().length === 0) {
         throw new Error('No text content extracted from document');
@@ -35,8 +82,14 @@ export class DocumentProcessor {
       logger.debug(`Extracted ${content.length} characters from ${metadata.filename}`);
 
       return {
-        metadata,
+        // Titles set by the connector (site pages) win over stored ones
+        metadata: properties
+          ? { ...metadata, title: metadata.title ?? properties.title, author: properties.author }
+          : metadata,
         content,
+        pageOffsets,
+        ocrConfidence: ocrConfidence?.some((confidence) => confidence !== undefined) ? ocrConfidence : undefined,
+        boilerplateRemoved,
         chunks: [], // Chunks will be created by the indexer
       };
     } catch (error) {
@@ -45,29 +98,20 @@ export class DocumentProcessor {
     }
   }
 
-  private async processPDF(buffer: Buffer): Promise<string> {
-    try {
-      const data = await pdfParse(buffer);
-      return data.text;
-    } catch (error) {
-      logger.error('Failed to parse PDF', { error });
-      throw new Error(`PDF parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  private async processWord(buffer: Buffer): Promise<string> {
-    try {
-      const result = await mammoth.extractRawText({ buffer });
-      
-      if (result.messages.length > 0) {
-        logger.warn('Word document extraction warnings', { messages: result.messages });
-      }
-
-      return result.value;
-    } catch (error) {
-      logger.error('Failed to parse Word document', { error });
-      throw new Error(`Word document parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  /**
+   * Cleans each page and joins them with blank lines, recording where each
+   * page starts. An empty page starts where the next one does.
+   */
+  private joinPages(pages: string[]): { content: string; pageOffsets: number[] } {
+    let content = '';
+    const pageOffsets = pages.map((page) => {
+      const text = this.cleanText(page);
+      if (text && content) content += '\n\n';
+      const offset = content.length;
+      content += text;
+      return offset;
+    });
+    return { content, pageOffsets };
   }
 
   private cleanText(text: string): string {
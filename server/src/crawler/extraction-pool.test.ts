@@ -0,0 +1,128 @@
+import { EventEmitter } from 'events';
+import { Worker } from 'worker_threads';
+import { ExtractionPool } from './extraction-pool';
+import { ExtractionLimitError } from './extractors';
+import { DocumentMetadata } from '../shared/types';
+
+jest.mock('worker_threads', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return {
+    Worker: jest.fn(() => Object.assign(new EventEmitter(), {
+      postMessage: jest.fn(),
+      ref: jest.fn(),
+      unref: jest.fn(),
+      terminate: jest.fn().mockResolvedValue(1),
+    })),
+  };
+});
+jest.mock('../shared/config', () => ({
+  config: {
+    extraction: { workers: 1, maxMemoryMb: 512, timeoutSeconds: 30 },
+    crawler: { concurrency: 4 },
+    ocr: { enabled: false },
+  },
+}));
+jest.mock('../shared/logger', () => ({ logger: { debug: jest.fn(), warn: jest.fn() } }));
+
+type FakeWorker = EventEmitter & { postMessage: jest.Mock; terminate: jest.Mock };
+
+const MockWorker = Worker as unknown as jest.Mock;
+
+function metadata(filename: string): DocumentMetadata {
+  return { filename, contentType: 'application/pdf' } as DocumentMetadata;
+}
+
+/** The workers the pool started, oldest first */
+function workers(): FakeWorker[] {
+  return MockWorker.mock.results.map((result) => result.value);
+}
+
+/** Answers the request a worker was last sent */
+function respond(worker: FakeWorker, response: { result: unknown } | { error: string; limit: boolean }): void {
+  const { id } = worker.postMessage.mock.calls.at(-1)![0];
+  worker.emit('message', { id, ...response });
+}
+
+describe('ExtractionPool', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockWorker.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('extracts documents one at a time on each worker', async () => {
+    const pool = new ExtractionPool();
+    const first = pool.extract(Buffer.from('a'), metadata('a.pdf'));
+    const second = pool.extract(Buffer.from('b'), metadata('b.pdf'));
+
+    expect(workers()).toHaveLength(1);
+    respond(workers()[0], { result: { text: 'A', pages: ['A'] } });
+    await expect(first).resolves.toEqual({ text: 'A', pages: ['A'] });
+
+    respond(workers()[0], { result: { text: 'B', pages: ['B'] } });
+    await expect(second).resolves.toEqual({ text: 'B', pages: ['B'] });
+    expect(workers()).toHaveLength(1);
+  });
+
+  it('fails a document that runs too long and replaces its worker', async () => {
+    const pool = new ExtractionPool();
+    const hanging = pool.extract(Buffer.from('a'), metadata('hangs.pdf'));
+    const queued = pool.extract(Buffer.from('b'), metadata('b.pdf'));
+
+    jest.advanceTimersByTime(30_000);
+
+    await expect(hanging).rejects.toThrow(new ExtractionLimitError('timeout after 30s'));
+    expect(workers()[0].terminate).toHaveBeenCalled();
+    // The queued document goes to a new worker
+    expect(workers()).toHaveLength(2);
+    respond(workers()[1], { result: { text: 'B', pages: ['B'] } });
+    await expect(queued).resolves.toEqual({ text: 'B', pages: ['B'] });
+  });
+
+  it('does not time out a document that finished', async () => {
+    const pool = new ExtractionPool();
+    const result = pool.extract(Buffer.from('a'), metadata('a.pdf'));
+    respond(workers()[0], { result: { text: 'A', pages: ['A'] } });
+    await result;
+
+    jest.advanceTimersByTime(60_000);
+
+    expect(workers()[0].terminate).not.toHaveBeenCalled();
+  });
+
+  it('passes limit errors from the worker on as ExtractionLimitError', async () => {
+    const pool = new ExtractionPool();
+    const result = pool.extract(Buffer.from('a'), metadata('huge.pdf'));
+
+    respond(workers()[0], { error: 'exceeds 100 pages (has 2000)', limit: true });
+
+    await expect(result).rejects.toBeInstanceOf(ExtractionLimitError);
+    await expect(result).rejects.toThrow('exceeds 100 pages (has 2000)');
+    // A limit reported by the extractor leaves the worker usable
+    expect(workers()[0].terminate).not.toHaveBeenCalled();
+  });
+
+  it('passes other extractor errors on as plain errors', async () => {
+    const pool = new ExtractionPool();
+    const result = pool.extract(Buffer.from('a'), metadata('broken.pdf'));
+
+    respond(workers()[0], { error: 'Invalid PDF structure', limit: false });
+
+    await expect(result).rejects.toThrow('Invalid PDF structure');
+    await expect(result).rejects.not.toBeInstanceOf(ExtractionLimitError);
+  });
+
+  it('fails a document whose worker runs out of memory with an ExtractionLimitError', async () => {
+    const pool = new ExtractionPool();
+    const result = pool.extract(Buffer.from('a'), metadata('huge.xlsx'));
+
+    workers()[0].emit('error', Object.assign(new Error('heap out of memory'), { code: 'ERR_WORKER_OUT_OF_MEMORY' }));
+    workers()[0].emit('exit', 1);
+
+    await expect(result).rejects.toThrow(new ExtractionLimitError('exceeds memory limit of 512 MB'));
+    await expect(result).rejects.toBeInstanceOf(ExtractionLimitError);
+  });
+});
@@ -0,0 +1,125 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { ExtractionRequest, ExtractionResponse } from './extraction-worker';
+import { ExtractionLimitError, ExtractionResult } from './extractors';
+import { config } from '../shared/config';
+import { logger } from '../shared/logger';
+import { DocumentMetadata } from '../shared/types';
+
+// extraction-worker.js when compiled, extraction-worker.ts under tsx (which workers inherit)
+const WORKER_SCRIPT = path.join(__dirname, `extraction-worker${path.extname(__filename)}`);
+
+interface Job {
+  request: ExtractionRequest;
+  resolve: (result: ExtractionResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: Job | null;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Runs extractors in worker threads, so a document that hangs a parser or
+ * fills its heap fails on its own instead of taking the crawl down. Each
+ * worker extracts one document at a time with a heap of
+ * EXTRACTION_MAX_MEMORY_MB; a document that runs longer than
+ * EXTRACTION_TIMEOUT_SECONDS or out of memory fails with an
+ * ExtractionLimitError and its worker is replaced. Idle workers do not keep
+ * the process alive.
+ */
+export class ExtractionPool {
+  private workers: PoolWorker[] = [];
+  private queue: Job[] = [];
+  private nextId = 0;
+
+  constructor(private size = config.extraction.workers ?? config.crawler.concurrency) {}
+
+  extract(buffer: Buffer, metadata: DocumentMetadata): Promise<ExtractionResult> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request: { id: this.nextId++, buffer, metadata }, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const slot = this.workers.find((candidate) => !candidate.job)
+        ?? (this.workers.length < this.size ? this.spawn() : undefined);
+      if (!slot) return;
+      this.run(slot, this.queue.shift()!);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const slot: PoolWorker = {
+      worker: new Worker(WORKER_SCRIPT, {
+        resourceLimits: { maxOldGenerationSizeMb: config.extraction.maxMemoryMb },
+      }),
+      job: null,
+    };
+
+    slot.worker.on('message', (response: ExtractionResponse) => this.finish(slot, response));
+    slot.worker.on('error', (error: Error & { code?: string }) => {
+      this.retire(slot, error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? new ExtractionLimitError(`exceeds memory limit of ${config.extraction.maxMemoryMb} MB`)
+        : new Error(`Extraction worker failed: ${error.message}`));
+    });
+    slot.worker.on('exit', (code) => this.retire(slot, new Error(`Extraction worker exited with code ${code}`)));
+    slot.worker.unref();
+
+    this.workers.push(slot);
+    logger.debug(`Started extraction worker ${this.workers.length} of ${this.size}`);
+    return slot;
+  }
+
+  private run(slot: PoolWorker, job: Job): void {
+    const timeoutSeconds = config.extraction.timeoutSeconds;
+    slot.job = job;
+    slot.timer = setTimeout(
+      () => this.retire(slot, new ExtractionLimitError(`timeout after ${timeoutSeconds}s`)),
+      timeoutSeconds * 1000
+    );
+    slot.worker.ref();
+    slot.worker.postMessage(job.request);
+  }
+
+  private finish(slot: PoolWorker, response: ExtractionResponse): void {
+    const job = slot.job;
+    if (!job || job.request.id !== response.id) return;
+
+    clearTimeout(slot.timer);
+    slot.job = null;
+    slot.worker.unref();
+
+    if ('result' in response) {
+      job.resolve(response.result);
+    } else {
+      job.reject(response.limit ? new ExtractionLimitError(response.error) : new Error(response.error));
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Drops a worker that timed out, crashed or exited, failing its document.
+   * Workers emit `exit` after `error` and after terminate(), so this runs
+   * more than once per worker; only the first call counts.
+   */
+  private retire(slot: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(slot);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+
+    clearTimeout(slot.timer);
+    slot.worker.terminate().catch(() => undefined);
+
+    if (slot.job) {
+      logger.warn(`Stopped extraction worker: ${error.message}`, { filename: slot.job.request.metadata.filename });
+      slot.job.reject(error);
+      slot.job = null;
+    }
+    this.dispatch();
+  }
+}
@@ -0,0 +1,34 @@
+import { parentPort } from 'worker_threads';
+import { ExtractionLimitError, ExtractionResult, extractors } from './extractors';
+import { DocumentMetadata } from '../shared/types';
+
+export interface ExtractionRequest {
+  id: number;
+  buffer: Uint8Array;
+  metadata: DocumentMetadata;
+}
+
+export type ExtractionResponse =
+  | { id: number; result: ExtractionResult }
+  | { id: number; error: string; limit: boolean };
+
+// Runs in a worker thread started by ExtractionPool, one document at a time
+parentPort?.on('message', async ({ id, buffer, metadata }: ExtractionRequest) => {
+  let response: ExtractionResponse;
+  try {
+    const extractor = extractors.forContentType(metadata.contentType);
+    if (!extractor) {
+      throw new Error(`Unsupported content type: ${metadata.contentType}`);
+    }
+    // Buffers arrive as plain Uint8Arrays
+    const result = await extractor.extract(Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength), metadata);
+    response = { id, result };
+  } catch (error) {
+    response = {
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      limit: error instanceof ExtractionLimitError,
+    };
+  }
+  parentPort?.postMessage(response);
+});
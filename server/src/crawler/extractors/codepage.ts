@@ -0,0 +1,42 @@
+import { TextDecoder } from 'util';
+
+export interface ByteDecoder {
+  decode(bytes: Uint8Array): string;
+}
+
+// Code pages WHATWG decoders know by another name than windows-<number>
+const ENCODINGS: Record<number, string> = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  10000: 'macintosh',
+  65001: 'utf-8',
+};
+
+// Upper half (0x80-0xFF) of US OEM code page 437, which WHATWG decoders lack
+const CP437_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+
+// 0x80-0x9F of Windows-1252; Node 20 decodes windows-1252 as Latin-1, which has control characters there
+const CP1252_C1 =
+  '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+function tableDecoder(map: (byte: number) => string): ByteDecoder {
+  return { decode: (bytes) => Array.from(bytes, map).join('') };
+}
+
+const windows1252 = tableDecoder((byte) => (byte >= 0x80 && byte < 0xa0 ? CP1252_C1[byte - 0x80] : String.fromCharCode(byte)));
+
+/** Decoder for a Windows code page number; unknown code pages are read as Windows-1252 */
+export function decoderFor(codePage: number): ByteDecoder {
+  if (codePage === 1252) return windows1252;
+  if (codePage === 437) {
+    return tableDecoder((byte) => (byte < 0x80 ? String.fromCharCode(byte) : CP437_HIGH[byte - 0x80]));
+  }
+  try {
+    return new TextDecoder(ENCODINGS[codePage] ?? `windows-${codePage}`);
+  } catch {
+    return windows1252;
+  }
+}
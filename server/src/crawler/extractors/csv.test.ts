@@ -0,0 +1,46 @@
+import { CsvExtractor, parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b\nc,d\n', ',')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('"a,b","say ""hi""","line 1\r\nline 2"', ',')).toEqual([['a,b', 'say "hi"', 'line 1\r\nline 2']]);
+  });
+
+  it('accepts CRLF line endings and a last line without one', () => {
+    expect(parseCsv('a;b\r\nc;d', ';')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,,\n', ',')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+});
+
+describe('CsvExtractor', () => {
+  const extractor = new CsvExtractor();
+
+  it('renders the rows as a Markdown table', async () => {
+    const text = await extractor.extract(Buffer.from('Grade,Daily limit\n1,50\n2,60\n'));
+
+    expect(text).toBe('| Grade | Daily limit |\n| --- | --- |\n| 1 | 50 |\n| 2 | 60 |');
+  });
+
+  it('detects semicolon and tab delimiters', async () => {
+    expect(await extractor.extract(Buffer.from('Grade;Limit\n1;50'))).toBe('| Grade | Limit |\n| --- | --- |\n| 1 | 50 |');
+    expect(await extractor.extract(Buffer.from('Grade\tLimit\n1\t50'))).toBe('| Grade | Limit |\n| --- | --- |\n| 1 | 50 |');
+  });
+
+  it('escapes pipes and flattens line breaks in cells', async () => {
+    const text = await extractor.extract(Buffer.from('Name,Note\nA,"x | y\nz"'));
+
+    expect(text).toBe('| Name | Note |\n| --- | --- |\n| A | x \\| y z |');
+  });
+
+  it('skips a UTF-8 byte order mark', async () => {
+    const text = await extractor.extract(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Grade,Limit\n1,50')]));
+
+    expect(text.startsWith('| Grade |')).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { TextExtractor } from './extractor';
+import { renderTable } from './table';
+import { decodeText } from './text';
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes
+ * and line breaks.
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** The delimiter that occurs most often in the first line */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+}
+
+export class CsvExtractor implements TextExtractor {
+  readonly name = 'CSV';
+  readonly extensions = { csv: 'text/csv' };
+
+  async extract(buffer: Buffer): Promise<string> {
+    const text = decodeText(buffer);
+    return renderTable(parseCsv(text, detectDelimiter(text)));
+  }
+}
@@ -0,0 +1,131 @@
+import CFB from 'cfb';
+import WordFileReader from 'word-extractor';
+import { decoderFor } from './codepage';
+import { DocumentProperties, ExtractedText, TextExtractor } from './extractor';
+import { isRtf, rtfToText } from './rtf';
+import { renderTable } from './table';
+import { logger } from '../../shared/logger';
+
+// Property ids in the SummaryInformation property set
+const PID_CODEPAGE = 1;
+const PID_TITLE = 2;
+const PID_AUTHOR = 4;
+
+const VT_I2 = 0x02;
+const VT_LPSTR = 0x1e;
+const VT_LPWSTR = 0x1f;
+
+/**
+ * Reads title and author from the SummaryInformation stream that Office
+ * writes into its OLE files (MS-OLEPS). Strings are stored in the code page
+ * of the property set.
+ */
+function readSummaryInformation(buffer: Buffer): DocumentProperties {
+  const entry = CFB.find(CFB.read(buffer, { type: 'buffer' }), '\u0005SummaryInformation');
+  if (!entry?.content || entry.content.length < 48) return {};
+
+  const stream = Buffer.from(entry.content as Uint8Array);
+  const setOffset = stream.readUInt32LE(44);
+  const count = stream.readUInt32LE(setOffset + 4);
+
+  const offsets = new Map<number, number>();
+  for (let i = 0; i < count; i++) {
+    const entryOffset = setOffset + 8 + i * 8;
+    offsets.set(stream.readUInt32LE(entryOffset), setOffset + stream.readUInt32LE(entryOffset + 4));
+  }
+
+  const codepageOffset = offsets.get(PID_CODEPAGE);
+  const codepage = codepageOffset !== undefined && stream.readUInt16LE(codepageOffset) === VT_I2
+    ? stream.readUInt16LE(codepageOffset + 4)
+    : 1252;
+
+  const readString = (id: number): string | undefined => {
+    const offset = offsets.get(id);
+    if (offset === undefined) return undefined;
+
+    const type = stream.readUInt16LE(offset);
+    const length = stream.readUInt32LE(offset + 4);
+    let value: string;
+    if (type === VT_LPWSTR || (type === VT_LPSTR && codepage === 1200)) {
+      // Lengths are in characters for VT_LPWSTR and in bytes for UTF-16 VT_LPSTR
+      const bytes = type === VT_LPWSTR ? length * 2 : length;
+      value = stream.subarray(offset + 8, offset + 8 + bytes).toString('utf16le');
+    } else if (type === VT_LPSTR) {
+      const bytes = stream.subarray(offset + 8, offset + 8 + length);
+      value = decoderFor(codepage).decode(bytes);
+    } else {
+      return undefined;
+    }
+    return value.replace(/\0+$/, '').trim() || undefined;
+  };
+
+  const title = readString(PID_TITLE);
+  const author = readString(PID_AUTHOR);
+  return { ...(title ? { title } : {}), ...(author ? { author } : {}) };
+}
+
+/**
+ * Word ends table cells with a cell mark and rows with a row mark, which
+ * come out as a tab after every cell and a line break after the row. Runs of
+ * at least two such lines become Markdown tables; cells with several
+ * paragraphs break the run and stay plain text.
+ */
+function markTables(text: string): string {
+  const lines = text.split('\n');
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; ) {
+    let end = i;
+    while (end < lines.length && lines[end].endsWith('\t')) end++;
+
+    if (end - i >= 2) {
+      const rows = lines.slice(i, end).map((line) => line.slice(0, -1).split('\t'));
+      output.push('', renderTable(rows), '');
+      i = end;
+    } else {
+      output.push(lines[i]);
+      i++;
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Reads Word 97-2003 binary documents: the body, footnotes, endnotes and text
+ * boxes. Page headers and footers are left out. Title and author come from
+ * the document's summary information.
+ */
+export class DocExtractor implements TextExtractor {
+  readonly name = 'Word 97-2003 document';
+  readonly extensions = { doc: 'application/msword' };
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    // Word can save RTF with a .doc name, and renamed files are common
+    if (isRtf(buffer)) {
+      return rtfToText(buffer.toString('latin1'));
+    }
+
+    const document = await new WordFileReader().extract(buffer);
+    let text = [
+      markTables(document.getBody()),
+      document.getFootnotes(),
+      document.getEndnotes(),
+      document.getTextboxes({ includeHeadersAndFooters: false }),
+    ].filter((part) => part.trim()).join('\n\n');
+
+    // Only Markdown tables are markup here; a line that starts with # is not a heading
+    // (chunking removes the escape again)
+    text = text.replace(/^#/gm, '\\#');
+
+    let properties: DocumentProperties = {};
+    try {
+      properties = readSummaryInformation(buffer);
+    } catch (error) {
+      // Properties are optional; the text is what matters
+      logger.debug('Could not read Word document properties', { error: error instanceof Error ? error.message : error });
+    }
+
+    return { text, properties };
+  }
+}
@@ -0,0 +1,58 @@
+import ExcelJS from 'exceljs';
+import { TextExtractor } from './extractor';
+import { renderTable } from './table';
+
+function formatDate(date: Date): string {
+  const iso = date.toISOString();
+  // Excel dates without a time of day are midnight UTC
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Displayable text of a cell: formulas show their cached result, rich text
+ * and hyperlinks their text, and errors nothing.
+ */
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value);
+  // Drop binary floating point noise such as 0.30000000000000004
+  if (typeof value === 'number') return String(Number(value.toPrecision(15)));
+  if (typeof value !== 'object') return String(value);
+
+  if ('richText' in value) return value.richText.map((run) => run.text).join('');
+  if ('hyperlink' in value) return cellText(value.text as ExcelJS.CellValue);
+  if ('formula' in value || 'sharedFormula' in value) return cellText(value.result);
+  return '';
+}
+
+/**
+ * Renders every worksheet as a Markdown table under a heading with the sheet
+ * name. The first non-empty row is taken as the header.
+ */
+export class ExcelExtractor implements TextExtractor {
+  readonly name = 'Excel workbook';
+  readonly extensions = { xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' };
+
+  async extract(buffer: Buffer): Promise<string> {
+    const workbook = new ExcelJS.Workbook();
+    // exceljs declares its own Buffer type, which newer Node typings no longer match
+    await workbook.xlsx.load(buffer as unknown as Parameters<typeof workbook.xlsx.load>[0]);
+
+    const sheets: string[] = [];
+    workbook.eachSheet((worksheet) => {
+      const rows: string[][] = [];
+      worksheet.eachRow((row) => {
+        const cells: string[] = [];
+        for (let column = 1; column <= row.cellCount; column++) {
+          cells.push(cellText(row.getCell(column).value));
+        }
+        rows.push(cells);
+      });
+
+      const table = renderTable(rows);
+      if (table) sheets.push(`# Sheet: ${worksheet.name}\n\n${table}`);
+    });
+
+    return sheets.join('\n\n');
+  }
+}
@@ -0,0 +1,61 @@
+import { config } from '../../shared/config';
+import { DocumentMetadata } from '../../shared/types';
+
+/** Text of each page, for formats with fixed pages; page 1 first */
+export interface PagedText {
+  pages: string[];
+  /** OCR confidence (0-100) of the pages whose text was recognised from images */
+  ocrConfidence?: (number | undefined)[];
+}
+
+/** Properties stored in the file itself, for formats that have them */
+export interface DocumentProperties {
+  title?: string;
+  author?: string;
+}
+
+/** Text of a document that is not paged, with its stored properties */
+export interface ExtractedText {
+  text: string;
+  properties?: DocumentProperties;
+}
+
+export type ExtractionResult = string | PagedText | ExtractedText;
+
+/**
+ * A document exceeds an extraction limit (EXTRACTION_* settings). The message
+ * is the reason, e.g. "exceeds 500 pages (has 812)".
+ */
+export class ExtractionLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtractionLimitError';
+  }
+}
+
+/** Paged extractors call this before reading the pages */
+export function checkPageCount(pages: number): void {
+  if (pages > config.extraction.maxPages) {
+    throw new ExtractionLimitError(`exceeds ${config.extraction.maxPages} pages (has ${pages})`);
+  }
+}
+
+/**
+ * Turns one kind of file into plain text for chunking. Extractors are found
+ * by content type (see ExtractorRegistry); connectors assign the content type
+ * from the file extension.
+ */
+export interface TextExtractor {
+  /** Used in error messages, e.g. "PDF" */
+  readonly name: string;
+  /** Content type of each file extension (without the dot) the extractor reads */
+  readonly extensions: Record<string, string>;
+  /** Further content types, for content that is not a file (e.g. site pages) */
+  readonly contentTypes?: string[];
+
+  /**
+   * Returns pages when the format has them, so chunks can cite page numbers,
+   * and the document's stored properties when it has those
+   */
+  extract(buffer: Buffer, metadata: DocumentMetadata): Promise<ExtractionResult>;
+}
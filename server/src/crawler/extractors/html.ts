@@ -0,0 +1,156 @@
+import { Parser } from 'htmlparser2';
+import { TextExtractor } from './extractor';
+import { renderTable } from './table';
+import { decodeText } from './text';
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'blockquote', 'pre',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'tr', 'br', 'hr',
+]);
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'iframe', 'object', 'img', 'svg']);
+
+export interface HtmlToTextOptions {
+  /** Write link targets next to the link text, resolved against this URL */
+  linkBaseUrl?: string;
+  /**
+   * Whether text inside an element belongs to the document. Once an element
+   * matches, so does everything below it. Without it all text outside
+   * skipped elements (scripts, styles, the head) counts.
+   */
+  isContent?: (tag: string, attributes: Record<string, string>, ancestors: OpenElement[]) => boolean;
+  /** Write h1-h6 as Markdown headings ("## Title") for the structure chunker */
+  headings?: boolean;
+}
+
+export interface OpenElement {
+  tag: string;
+  attributes: Record<string, string>;
+  /** Text inside this element belongs to the document */
+  content: boolean;
+  textStart?: number;
+}
+
+/**
+ * Converts HTML to plain text with one line per block element and list items
+ * prefixed with "- ". Tables become Markdown tables; nested tables are
+ * flattened into their cell. Returns the document title separately.
+ */
+export function htmlToText(html: string, options: HtmlToTextOptions = {}): { title?: string; text: string } {
+  const stack: OpenElement[] = [];
+  const lines: string[] = [];
+  let line = '';
+  // List bullet or heading marker that starts the current line
+  let prefix = '';
+  let title: string | undefined;
+  let skipDepth = 0;
+  // While in a table, `line` collects the text of the current cell
+  let table = null as { rows: string[][]; depth: number } | null;
+
+  const endLine = () => {
+    let text = line.replace(/\s+/g, ' ').trim();
+    // Text that only looks like a heading is escaped, as in Markdown
+    if (options.headings && !prefix.startsWith('#')) text = text.replace(/^#/, '\\#');
+    if (text && text !== prefix.trim()) lines.push(text);
+    line = '';
+    prefix = '';
+  };
+
+  const parser = new Parser(
+    {
+      onopentag(tag, attributes) {
+        const parent = stack[stack.length - 1];
+        if (SKIPPED_TAGS.has(tag)) skipDepth++;
+
+        if (table) {
+          if (tag === 'table') table.depth++;
+          else if (table.depth === 1 && tag === 'tr') table.rows.push([]);
+          else if (table.depth === 1 && (tag === 'td' || tag === 'th')) line = '';
+          else if (BLOCK_TAGS.has(tag)) line += ' ';
+        } else if (tag === 'table') {
+          endLine();
+          table = { rows: [], depth: 1 };
+        } else {
+          if (BLOCK_TAGS.has(tag)) endLine();
+          if (tag === 'li') line = prefix = '- ';
+          if (options.headings && /^h[1-6]$/.test(tag)) line = prefix = `${'#'.repeat(Number(tag[1]))} `;
+        }
+
+        const content = !!parent?.content || (options.isContent ? options.isContent(tag, attributes, stack) : true);
+        stack.push({ tag, attributes, content, textStart: tag === 'a' ? line.length : undefined });
+      },
+      ontext(text) {
+        const element = stack[stack.length - 1];
+        // The document title, not the title of an inline SVG
+        if (element?.tag === 'title' && !stack.some((open) => open.tag === 'svg')) {
+          title = ((title ?? '') + text).replace(/\s+/g, ' ').trim();
+          return;
+        }
+        if (skipDepth > 0 || (element ? !element.content : !!options.isContent)) return;
+        line += text;
+      },
+      onclosetag(tag) {
+        const element = stack.pop();
+        if (SKIPPED_TAGS.has(tag)) skipDepth--;
+
+        if (options.linkBaseUrl && element?.tag === 'a' && element.content && element.attributes.href) {
+          const url = resolveUrl(element.attributes.href, options.linkBaseUrl);
+          const label = line.slice(element.textStart).trim();
+          if (url && label !== url) {
+            line += label ? ` (${url})` : ` ${url}`;
+          }
+        }
+
+        if (!table) {
+          if (BLOCK_TAGS.has(tag)) endLine();
+        } else if (tag === 'table' && --table.depth === 0) {
+          const markdown = renderTable(table.rows);
+          if (markdown) lines.push(markdown);
+          table = null;
+          line = '';
+        } else if (table.depth === 1 && (tag === 'td' || tag === 'th')) {
+          if (table.rows.length === 0) table.rows.push([]);
+          const cells = table.rows[table.rows.length - 1];
+          cells.push(line.replace(/\s+/g, ' ').trim());
+          // Merged cells keep the columns of the rows below aligned
+          const span = Math.min(Number(element?.attributes.colspan) || 1, 100);
+          for (let i = 1; i < span; i++) cells.push('');
+          line = '';
+        } else if (BLOCK_TAGS.has(tag)) {
+          line += ' ';
+        }
+      },
+    },
+    { decodeEntities: true, lowerCaseTags: true }
+  );
+
+  parser.write(html);
+  parser.end();
+  endLine();
+  // A table left open at the end of the document
+  if (table) lines.push(renderTable(table.rows));
+
+  return { title: title || undefined, text: lines.join('\n') };
+}
+
+/**
+ * Absolute http(s) URL of a link, or null for anchors, mailto and script links.
+ */
+function resolveUrl(href: string, baseUrl: string): string | null {
+  if (href.startsWith('#')) return null;
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export class HtmlExtractor implements TextExtractor {
+  readonly name = 'HTML';
+  readonly extensions = { html: 'text/html', htm: 'text/html' };
+
+  async extract(buffer: Buffer): Promise<string> {
+    const { title, text } = htmlToText(decodeText(buffer), { headings: true });
+    return title ? `${title}\n\n${text}` : text;
+  }
+}
@@ -0,0 +1,46 @@
+import * as UTIF from 'utif';
+import { PagedText, TextExtractor, checkPageCount } from './extractor';
+import { encodePng, ocr } from './ocr';
+
+/**
+ * Recognises the text of images with OCR. Each page of a multi-page TIFF (as
+ * produced by many scanners) is a page of the document.
+ */
+export class ImageExtractor implements TextExtractor {
+  readonly name = 'Image';
+  readonly extensions = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    tif: 'image/tiff',
+    tiff: 'image/tiff',
+  };
+
+  async extract(buffer: Buffer): Promise<PagedText> {
+    const images = /^(II\*\0|MM\0\*)/.test(buffer.subarray(0, 4).toString('latin1'))
+      ? this.tiffPages(buffer)
+      : [buffer];
+
+    const pages: string[] = [];
+    const ocrConfidence: number[] = [];
+    for (const image of images) {
+      const result = await ocr.recognize(image);
+      pages.push(result.text);
+      ocrConfidence.push(result.confidence);
+    }
+    return { pages, ocrConfidence };
+  }
+
+  /** Tesseract cannot read TIFF; every page is converted to PNG */
+  private tiffPages(buffer: Buffer): Buffer[] {
+    const ifds = UTIF.decode(buffer);
+    // Skip directories without image data, e.g. EXIF blocks
+    const images = ifds.filter((ifd) => ifd.t256 !== undefined);
+    checkPageCount(images.length);
+
+    return images.map((ifd) => {
+      UTIF.decodeImage(buffer, ifd, ifds);
+      return encodePng(ifd.width, ifd.height, UTIF.toRGBA8(ifd));
+    });
+  }
+}
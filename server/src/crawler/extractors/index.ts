@@ -0,0 +1,44 @@
+import { CsvExtractor } from './csv';
+import { DocExtractor } from './doc';
+import { ExcelExtractor } from './excel';
+import { HtmlExtractor } from './html';
+import { ImageExtractor } from './image';
+import { MarkdownExtractor } from './markdown';
+import { PdfExtractor } from './pdf';
+import { PowerPointExtractor } from './powerpoint';
+import { ExtractorRegistry } from './registry';
+import { RtfExtractor } from './rtf';
+import { SitePageExtractor } from './site-page';
+import { PlainTextExtractor } from './text';
+import { WordExtractor } from './word';
+import { config } from '../../shared/config';
+
+export {
+  DocumentProperties,
+  ExtractedText,
+  ExtractionLimitError,
+  ExtractionResult,
+  PagedText,
+  TextExtractor,
+} from './extractor';
+export { ExtractorRegistry } from './registry';
+export { SITE_PAGE_CONTENT_TYPE, SitePageContent } from './site-page';
+
+/** The extractors the crawler uses; register more here */
+export const extractors = new ExtractorRegistry()
+  .register(new PdfExtractor())
+  .register(new WordExtractor())
+  .register(new DocExtractor())
+  .register(new RtfExtractor())
+  .register(new PowerPointExtractor())
+  .register(new ExcelExtractor())
+  .register(new HtmlExtractor())
+  .register(new MarkdownExtractor())
+  .register(new CsvExtractor())
+  .register(new PlainTextExtractor())
+  .register(new SitePageExtractor());
+
+// Without OCR images have no text, so they are not listed at all
+if (config.ocr.enabled) {
+  extractors.register(new ImageExtractor());
+}
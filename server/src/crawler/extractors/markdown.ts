@@ -0,0 +1,34 @@
+import { TextExtractor } from './extractor';
+import { decodeText } from './text';
+
+/**
+ * Markdown is mostly readable as it is; only the syntax that gets in the way
+ * of retrieval is removed: front matter, HTML comments and tags, and link
+ * and image targets.
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '')
+    // Setext headings become ATX headings for the structure chunker
+    .replace(/^([^\s|>#*+-].*)\r?\n=+[ \t]*$/gm, '# $1')
+    .replace(/^([^\s|>#*+-].*)\r?\n-+[ \t]*$/gm, '## $1')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // Images keep their alt text, links their text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    // Reference-style link definitions
+    .replace(/^\s{0,3}\[[^\]]+\]:\s+\S+.*$/gm, '')
+    // Autolinks keep their URL
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, '$1')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?[a-zA-Z][^>\n]*>/g, '');
+}
+
+export class MarkdownExtractor implements TextExtractor {
+  readonly name = 'Markdown';
+  readonly extensions = { md: 'text/markdown', markdown: 'text/markdown' };
+
+  async extract(buffer: Buffer): Promise<string> {
+    return markdownToText(decodeText(buffer));
+  }
+}
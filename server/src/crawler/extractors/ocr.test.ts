@@ -0,0 +1,52 @@
+import { createWorker } from 'tesseract.js';
+import { OcrEngine } from './ocr';
+
+jest.mock('tesseract.js', () => ({ createWorker: jest.fn() }));
+jest.mock('../../shared/config', () => ({
+  config: { ocr: { languages: 'eng+deu', langPath: '/opt/tessdata' }, crawler: { stateDir: 'data' } },
+}));
+jest.mock('../../shared/logger', () => ({ logger: { info: jest.fn() } }));
+
+const mockCreateWorker = createWorker as jest.Mock;
+
+describe('OcrEngine', () => {
+  const recognize = jest.fn();
+
+  beforeEach(() => {
+    mockCreateWorker.mockReset().mockResolvedValue({ recognize });
+    recognize.mockReset().mockResolvedValue({ data: { text: 'Invoice 42\n', confidence: 87.6 } });
+  });
+
+  it('returns the text with its mean confidence rounded', async () => {
+    expect(await new OcrEngine().recognize(Buffer.from('png'))).toEqual({ text: 'Invoice 42\n', confidence: 88 });
+  });
+
+  it('starts one worker with the configured languages and language data', async () => {
+    const engine = new OcrEngine();
+    await engine.recognize(Buffer.from('page 1'));
+    await engine.recognize(Buffer.from('page 2'));
+
+    expect(mockCreateWorker).toHaveBeenCalledTimes(1);
+    expect(mockCreateWorker).toHaveBeenCalledWith(['eng', 'deu'], undefined, expect.objectContaining({
+      langPath: '/opt/tessdata',
+      cachePath: 'data/ocr',
+    }));
+    expect(recognize).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails instead of waiting forever when the language data cannot be loaded', async () => {
+    // tesseract.js reports the failure through the error handler and never settles createWorker
+    mockCreateWorker.mockImplementation((_langs, _oem, options) => {
+      options.errorHandler('Network error while fetching eng.traineddata.gz');
+      return new Promise(() => undefined);
+    });
+    const engine = new OcrEngine();
+
+    await expect(engine.recognize(Buffer.from('png'))).rejects.toThrow(
+      'OCR worker failed: Network error while fetching eng.traineddata.gz'
+    );
+    // The failed start is not retried for every page
+    await expect(engine.recognize(Buffer.from('png'))).rejects.toThrow('OCR worker failed');
+    expect(mockCreateWorker).toHaveBeenCalledTimes(1);
+  });
+});
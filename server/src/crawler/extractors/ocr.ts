@@ -0,0 +1,55 @@
+import path from 'path';
+import { PNG } from 'pngjs';
+import { createWorker, Worker } from 'tesseract.js';
+import { config } from '../../shared/config';
+import { logger } from '../../shared/logger';
+
+export interface OcrResult {
+  text: string;
+  /** Mean word confidence, 0-100 */
+  confidence: number;
+}
+
+/**
+ * Tesseract compiled to WebAssembly, so OCR needs no GPU or native
+ * binaries. The worker starts on first use (loading the language data takes
+ * a few seconds) and runs one recognition at a time; documents processed in
+ * parallel queue for it.
+ */
+export class OcrEngine {
+  private worker: Promise<Worker> | null = null;
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const worker = await this.start();
+    const { data } = await worker.recognize(image);
+    return { text: data.text, confidence: Math.round(data.confidence) };
+  }
+
+  private start(): Promise<Worker> {
+    if (!this.worker) {
+      logger.info(`Starting OCR worker (${config.ocr.languages})`);
+      // tesseract.js never settles createWorker when the language data fails
+      // to load, and leaves the worker thread running, so a failed start is
+      // reported through the error handler and not retried
+      this.worker = new Promise<Worker>((resolve, reject) => {
+        createWorker(config.ocr.languages.split('+'), undefined, {
+          // Downloaded language data is kept with the crawl state
+          cachePath: path.join(config.crawler.stateDir, 'ocr'),
+          // tesseract.js downloads language data from its CDN unless told otherwise
+          ...(config.ocr.langPath ? { langPath: config.ocr.langPath } : {}),
+          errorHandler: (error) => reject(new Error(`OCR worker failed: ${error}`)),
+        }).then(resolve, reject);
+      });
+    }
+    return this.worker;
+  }
+}
+
+export const ocr = new OcrEngine();
+
+/** Encodes RGBA pixels as PNG, a format Tesseract reads */
+export function encodePng(width: number, height: number, rgba: Uint8Array): Buffer {
+  const png = new PNG({ width, height });
+  png.data = Buffer.from(rgba.buffer, rgba.byteOffset, rgba.byteLength);
+  return PNG.sync.write(png);
+}
@@ -0,0 +1,129 @@
+import { renderTable } from './table';
+
+interface TextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+/** Text on a line between two wide gaps */
+interface Segment {
+  text: string;
+  x: number;
+  width: number;
+}
+
+export interface Line {
+  text: string;
+  /** Baseline, in PDF units from the bottom of the page */
+  y: number;
+  segments: Segment[];
+  /** Heading level, from the outline */
+  level?: number;
+}
+
+// A gap wider than this many font sizes separates table cells, not words
+const CELL_GAP = 1.2;
+// Longer cells on average are columns of running text, not a table
+const MAX_AVERAGE_CELL_LENGTH = 40;
+
+/**
+ * Text items in content order, with a new line wherever the baseline
+ * changes (as pdf-parse renders pages). Items far apart on a line are kept
+ * as separate segments for table detection.
+ */
+export async function readLines(page: any): Promise<Line[]> {
+  const textContent = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  const lines: Line[] = [];
+  for (const item of textContent.items as TextItem[]) {
+    const [, , , scaleY, x, y] = item.transform;
+    const last = lines[lines.length - 1];
+    if (!last || last.y !== y) {
+      lines.push({ text: item.str, y, segments: [{ text: item.str, x, width: item.width }] });
+      continue;
+    }
+
+    last.text += item.str;
+    const segment = last.segments[last.segments.length - 1];
+    const fontSize = Math.abs(scaleY) || item.height || 10;
+    if (item.str.trim() && x - (segment.x + segment.width) > CELL_GAP * fontSize && segment.text.trim()) {
+      last.segments.push({ text: item.str, x, width: item.width });
+    } else {
+      segment.text += item.str;
+      segment.width = Math.max(segment.width, x + item.width - segment.x);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Cells of consecutive lines laid out in the same columns, or null when the
+ * lines do not form a table. Columns are those of the row with the most
+ * cells; every other cell goes to the column nearest its center, so left-,
+ * right- and center-aligned columns all line up.
+ */
+function toTable(rows: Line[]): string[][] | null {
+  const widest = rows.reduce((a, b) => (b.segments.length > a.segments.length ? b : a));
+  const columns = widest.segments.map((segment) => ({ start: segment.x, end: segment.x + segment.width }));
+
+  const table: string[][] = [];
+  let cellCount = 0;
+  let textLength = 0;
+  for (const row of rows) {
+    const cells = columns.map(() => '');
+    for (const segment of row.segments) {
+      const center = segment.x + segment.width / 2;
+      let column = 0;
+      let nearest = Infinity;
+      columns.forEach((candidate, index) => {
+        const distance = Math.max(candidate.start - center, center - candidate.end, 0);
+        if (distance < nearest) {
+          nearest = distance;
+          column = index;
+        }
+      });
+      // Two cells in one column: the row does not follow the layout
+      if (cells[column]) return null;
+      cells[column] = segment.text.trim();
+      cellCount++;
+      textLength += cells[column].length;
+    }
+    table.push(cells);
+  }
+
+  return textLength / cellCount <= MAX_AVERAGE_CELL_LENGTH ? table : null;
+}
+
+/**
+ * Page text with outline headings as Markdown headings and runs of at least
+ * two multi-column lines as Markdown tables.
+ */
+export function renderLines(lines: Line[]): string {
+  const output: string[] = [];
+  let run: Line[] = [];
+
+  const endRun = () => {
+    const table = run.length >= 2 ? toTable(run) : null;
+    if (table) {
+      output.push(renderTable(table));
+    } else {
+      output.push(...run.map((line) => line.text));
+    }
+    run = [];
+  };
+
+  for (const line of lines) {
+    if (!line.level && line.segments.length >= 2) {
+      run.push(line);
+      continue;
+    }
+    endRun();
+    // Other lines starting with "#" are escaped so they are not taken for headings;
+    // chunking removes the escape again
+    output.push(line.level ? `${'#'.repeat(line.level)} ${line.text}` : line.text.replace(/^(\s*)#/, '$1\\#'));
+  }
+  endRun();
+
+  return output.join('\n');
+}
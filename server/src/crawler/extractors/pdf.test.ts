@@ -0,0 +1,111 @@
+import { logger } from '../../shared/logger';
+import { ocr } from './ocr';
+import { PdfExtractor } from './pdf';
+
+const mockConfig = { ocr: { enabled: true }, extraction: { maxPages: 100 } };
+
+// Getters: jest.mock() factories are hoisted above the declarations
+jest.mock('../../shared/config', () => ({ get config() { return mockConfig; } }));
+jest.mock('../../shared/logger', () => ({ logger: { debug: jest.fn(), warn: jest.fn() } }));
+jest.mock('./ocr', () => ({
+  ...jest.requireActual('./ocr'),
+  ocr: { recognize: jest.fn() },
+}));
+
+const mockRecognize = ocr.recognize as jest.Mock;
+
+type TestPage = { text: string } | { scan: { width: number; height: number } };
+
+/** A PDF with a text layer on text pages and only a grey image on scanned pages */
+function buildPdf(pages: TestPage[]): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body) + 2; // objects 1 and 2 are the catalog and page tree
+  const font = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+
+  const pageIds = pages.map((page) => {
+    let content: string;
+    let resources: string;
+    if ('text' in page) {
+      content = `BT /F1 12 Tf 72 720 Td (${page.text}) Tj ET`;
+      resources = `<< /Font << /F1 ${font} 0 R >> >>`;
+    } else {
+      const { width, height } = page.scan;
+      const pixels = 'Z'.repeat(width * height);
+      const image = add(
+        `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Length ${pixels.length} >>\nstream\n${pixels}\nendstream`
+      );
+      content = `q ${width} 0 0 ${height} 72 500 cm /Im1 Do Q`;
+      resources = `<< /XObject << /Im1 ${image} 0 R >> >>`;
+    }
+    const stream = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources ${resources} /Contents ${stream} 0 R >>`);
+  });
+
+  const all = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    ...objects,
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets = all.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${all.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${all.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('PdfExtractor OCR', () => {
+  const extractor = new PdfExtractor();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig.ocr.enabled = true;
+    mockRecognize.mockReset().mockResolvedValue({ text: 'Recognised invoice text', confidence: 81 });
+  });
+
+  it('recognises pages without a text layer and records their confidence', async () => {
+    const pdf = buildPdf([{ text: 'Cover letter' }, { scan: { width: 200, height: 100 } }]);
+
+    const result = await extractor.extract(pdf);
+
+    expect(result.pages).toEqual(['Cover letter', 'Recognised invoice text']);
+    expect(result.ocrConfidence).toEqual([undefined, 81]);
+    expect(mockRecognize).toHaveBeenCalledTimes(1);
+    // Handed to Tesseract as PNG
+    expect((mockRecognize.mock.calls[0][0] as Buffer).subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('does not recognise images too small to hold text', async () => {
+    const result = await extractor.extract(buildPdf([{ scan: { width: 40, height: 20 } }]));
+
+    expect(mockRecognize).not.toHaveBeenCalled();
+    expect(result.pages).toEqual(['']);
+    expect(result.ocrConfidence).toEqual([undefined]);
+  });
+
+  it('keeps a scanned page empty when OCR fails and goes on with the next page', async () => {
+    mockRecognize.mockRejectedValueOnce(new Error('OCR worker failed: Network error'));
+    const pdf = buildPdf([{ scan: { width: 200, height: 100 } }, { scan: { width: 200, height: 100 } }]);
+
+    const result = await extractor.extract(pdf);
+
+    expect(result.pages).toEqual(['', 'Recognised invoice text']);
+    expect(result.ocrConfidence).toEqual([undefined, 81]);
+    expect(logger.warn).toHaveBeenCalledWith('OCR failed on PDF page 1', { error: 'OCR worker failed: Network error' });
+  });
+
+  it('leaves scanned pages empty when OCR is disabled', async () => {
+    mockConfig.ocr.enabled = false;
+
+    const result = await extractor.extract(buildPdf([{ scan: { width: 200, height: 100 } }]));
+
+    expect(mockRecognize).not.toHaveBeenCalled();
+    expect(result.pages).toEqual(['']);
+    expect(result.ocrConfidence).toEqual([undefined]);
+  });
+});
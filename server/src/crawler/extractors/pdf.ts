@@ -0,0 +1,193 @@
+// pdf-parse bundles pdf.js, but its wrapper only returns the text, not the
+// outline; the bundled build is used directly instead.
+import PDFJS = require('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+import { config } from '../../shared/config';
+import { logger } from '../../shared/logger';
+import { PagedText, TextExtractor, checkPageCount } from './extractor';
+import { OcrResult, encodePng, ocr } from './ocr';
+import { Line, readLines, renderLines } from './pdf-layout';
+
+PDFJS.disableWorker = true;
+
+interface OutlineHeading {
+  level: number;
+  title: string;
+  pageIndex: number;
+  /** Top of the destination on the page, when the outline entry has one */
+  y?: number;
+}
+
+async function resolveDestination(doc: any, dest: unknown): Promise<{ pageIndex: number; y?: number } | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await doc.getDestination(dest) : dest;
+    if (!Array.isArray(explicit)) return null;
+
+    const [ref, mode, ...args] = explicit;
+    const pageIndex = typeof ref === 'number' ? ref : await doc.getPageIndex(ref);
+    // [page, /XYZ, left, top, zoom] and [page, /FitH, top] say where on the page the entry points
+    const top = mode?.name === 'XYZ' ? args[1] : mode?.name === 'FitH' || mode?.name === 'FitBH' ? args[0] : undefined;
+    return { pageIndex, y: typeof top === 'number' ? top : undefined };
+  } catch {
+    return null;
+  }
+}
+
+/** Outline (bookmark) entries in document order, nested entries one level deeper */
+async function readOutline(doc: any): Promise<OutlineHeading[]> {
+  const outline = await doc.getOutline().catch(() => null);
+  const headings: OutlineHeading[] = [];
+
+  const visit = async (items: any[] | null | undefined, level: number) => {
+    for (const item of items ?? []) {
+      const title = String(item.title ?? '').replace(/\s+/g, ' ').trim();
+      const target = await resolveDestination(doc, item.dest);
+      if (title && target) {
+        headings.push({ level: Math.min(level, 6), title, ...target });
+      }
+      await visit(item.items, level + 1);
+    }
+  };
+  await visit(outline, 1);
+
+  return headings;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Marks the lines that outline entries point to as headings. An entry whose
+ * title does not appear as a line of its own is inserted above the first
+ * line below its destination, or at the top of the page.
+ */
+function markHeadings(lines: Line[], headings: OutlineHeading[]): void {
+  let topInserts = 0;
+  for (const heading of headings) {
+    const title = normalize(heading.title);
+    const match = lines.find((line) => line.level === undefined && normalize(line.text) === title);
+    if (match) {
+      match.level = heading.level;
+      continue;
+    }
+
+    const below = heading.y === undefined ? -1 : lines.findIndex((line) => line.y < heading.y!);
+    const index = heading.y === undefined ? topInserts++ : below === -1 ? lines.length : below;
+    lines.splice(index, 0, {
+      text: heading.title,
+      y: heading.y ?? Infinity,
+      segments: [{ text: heading.title, x: 0, width: 0 }],
+      level: heading.level,
+    });
+  }
+}
+
+// pdf.js ImageKind
+const GRAYSCALE_1BPP = 1;
+const RGB_24BPP = 2;
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array;
+}
+
+function toRgba(image: DecodedImage): Uint8Array {
+  if (image.kind !== GRAYSCALE_1BPP && image.kind !== RGB_24BPP) return image.data;
+
+  const rgba = new Uint8Array(image.width * image.height * 4);
+  const rowBytes = (image.width + 7) >> 3;
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const pixel = (y * image.width + x) * 4;
+      if (image.kind === GRAYSCALE_1BPP) {
+        // Set bits are white
+        const white = image.data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7));
+        rgba.fill(white ? 255 : 0, pixel, pixel + 3);
+      } else {
+        rgba.set(image.data.subarray(pixel / 4 * 3, pixel / 4 * 3 + 3), pixel);
+      }
+      rgba[pixel + 3] = 255;
+    }
+  }
+  return rgba;
+}
+
+/**
+ * Recognises the images painted on a page, e.g. the scan of a page without
+ * a text layer. The confidence is averaged over the recognised text.
+ */
+async function recognizePage(page: any): Promise<OcrResult | null> {
+  const operators = await page.getOperatorList();
+  const results: OcrResult[] = [];
+
+  for (let i = 0; i < operators.fnArray.length; i++) {
+    if (operators.fnArray[i] !== PDFJS.OPS.paintImageXObject) continue;
+
+    const image: DecodedImage = await new Promise((resolve) => page.objs.get(operators.argsArray[i][0], resolve));
+    // Icons and rules are too small to hold text
+    if (!image || image.width < 100 || image.height < 30) continue;
+
+    results.push(await ocr.recognize(encodePng(image.width, image.height, toRgba(image))));
+  }
+
+  const length = results.reduce((sum, result) => sum + result.text.length, 0);
+  if (length === 0) return null;
+  return {
+    text: results.map((result) => result.text).join('\n'),
+    confidence: Math.round(results.reduce((sum, result) => sum + result.confidence * result.text.length, 0) / length),
+  };
+}
+
+export class PdfExtractor implements TextExtractor {
+  readonly name = 'PDF';
+  readonly extensions = { pdf: 'application/pdf' };
+
+  async extract(buffer: Buffer): Promise<PagedText> {
+    // pdf.js reads a Buffer's underlying ArrayBuffer, which may be larger than the Buffer.
+    // JPEGs are decoded by pdf.js itself so scanned pages can be passed to OCR.
+    const doc = await PDFJS.getDocument({ data: new Uint8Array(buffer), nativeImageDecoderSupport: 'none' });
+    try {
+      checkPageCount(doc.numPages);
+      const headings = await readOutline(doc);
+      const pages: string[] = [];
+      const ocrConfidence: (number | undefined)[] = [];
+
+      for (let pageIndex = 0; pageIndex < doc.numPages; pageIndex++) {
+        let page: any = null;
+        let lines: Line[] = [];
+        let recognized: OcrResult | null = null;
+        try {
+          page = await doc.getPage(pageIndex + 1);
+          lines = await readLines(page);
+        } catch (error) {
+          // Keep the page number; the rest of the document is still usable
+          logger.debug(`Failed to read PDF page ${pageIndex + 1}`, { error });
+        }
+
+        // No text layer: a scanned page
+        if (page && config.ocr.enabled && !lines.some((line) => /[\p{L}\p{N}]/u.test(line.text))) {
+          try {
+            recognized = await recognizePage(page);
+          } catch (error) {
+            logger.warn(`OCR failed on PDF page ${pageIndex + 1}`, {
+              error: error instanceof Error ? error.message : error,
+            });
+          }
+        }
+
+        markHeadings(lines, headings.filter((heading) => heading.pageIndex === pageIndex));
+        if (recognized) {
+          const outline = renderLines(lines);
+          pages.push(outline ? `${outline}\n${recognized.text}` : recognized.text);
+        } else {
+          pages.push(renderLines(lines));
+        }
+        ocrConfidence.push(recognized?.confidence);
+      }
+
+      return { pages, ocrConfidence };
+    } finally {
+      doc.destroy();
+    }
+  }
+}
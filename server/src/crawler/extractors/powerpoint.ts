@@ -0,0 +1,160 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { Parser } from 'htmlparser2';
+import { TextExtractor } from './extractor';
+
+const NOTES_SLIDE_RELATIONSHIP = '/notesSlide';
+// Placeholders that repeat on every slide without saying anything about it
+const SKIPPED_PLACEHOLDERS = new Set(['sldNum', 'dt', 'ftr', 'hdr', 'sldImg']);
+
+interface Relationship {
+  type: string;
+  /** Path of the target part inside the package */
+  target: string;
+}
+
+async function readPart(zip: JSZip, name: string): Promise<string | null> {
+  const file = zip.file(name);
+  return file ? file.async('string') : null;
+}
+
+/** Relationships of a package part, keyed by relationship id */
+async function readRelationships(zip: JSZip, part: string): Promise<Map<string, Relationship>> {
+  const relationships = new Map<string, Relationship>();
+  const xml = await readPart(zip, path.posix.join(path.posix.dirname(part), '_rels', `${path.posix.basename(part)}.rels`));
+  if (!xml) return relationships;
+
+  const parser = new Parser(
+    {
+      onopentag(tag, attributes) {
+        if (tag !== 'Relationship' || attributes.TargetMode === 'External') return;
+        // Targets are relative to the part unless they start at the package root
+        const target = attributes.Target.startsWith('/')
+          ? attributes.Target.slice(1)
+          : path.posix.join(path.posix.dirname(part), attributes.Target);
+        relationships.set(attributes.Id, { type: attributes.Type, target });
+      },
+    },
+    { xmlMode: true }
+  );
+  parser.write(xml);
+  parser.end();
+  return relationships;
+}
+
+/** Slide parts in presentation order */
+async function readSlideOrder(zip: JSZip): Promise<string[]> {
+  const presentation = 'ppt/presentation.xml';
+  const xml = await readPart(zip, presentation);
+  if (!xml) throw new Error('Not a PowerPoint presentation: ppt/presentation.xml is missing');
+
+  const relationships = await readRelationships(zip, presentation);
+  const slides: string[] = [];
+  const parser = new Parser(
+    {
+      onopentag(tag, attributes) {
+        const slide = tag === 'p:sldId' ? relationships.get(attributes['r:id']) : undefined;
+        if (slide) slides.push(slide.target);
+      },
+    },
+    { xmlMode: true }
+  );
+  parser.write(xml);
+  parser.end();
+  return slides;
+}
+
+/**
+ * Paragraphs of the shapes on a slide or notes page. `include` decides by
+ * placeholder type (undefined for shapes that are not placeholders); text
+ * outside shapes, such as in tables, is always included.
+ */
+function readParagraphs(xml: string, include: (placeholder: string | undefined) => boolean): string[] {
+  const paragraphs: string[] = [];
+  let paragraph: string | null = null;
+  let inText = false;
+  let inShape = false;
+  let skipShape = false;
+
+  const parser = new Parser(
+    {
+      onopentag(tag, attributes) {
+        switch (tag) {
+          case 'p:sp':
+            inShape = true;
+            skipShape = !include(undefined);
+            break;
+          case 'p:ph':
+            // A placeholder without a type is a content placeholder
+            if (inShape) skipShape = !include(attributes.type ?? 'obj');
+            break;
+          case 'a:p':
+            paragraph = '';
+            break;
+          case 'a:t':
+            inText = true;
+            break;
+          case 'a:br':
+            if (paragraph !== null) paragraph += '\n';
+            break;
+          case 'a:tab':
+            if (paragraph !== null) paragraph += ' ';
+            break;
+        }
+      },
+      ontext(text) {
+        if (inText && paragraph !== null) paragraph += text;
+      },
+      onclosetag(tag) {
+        if (tag === 'a:t') {
+          inText = false;
+        } else if (tag === 'a:p') {
+          if (paragraph?.trim() && !(inShape && skipShape)) paragraphs.push(paragraph.trim());
+          paragraph = null;
+        } else if (tag === 'p:sp') {
+          inShape = false;
+        }
+      },
+    },
+    { xmlMode: true, decodeEntities: true }
+  );
+  parser.write(xml);
+  parser.end();
+  return paragraphs;
+}
+
+/**
+ * Text of each slide under a "Slide N" heading, followed by its speaker
+ * notes. Slide numbers follow the presentation order, as in PowerPoint.
+ */
+export class PowerPointExtractor implements TextExtractor {
+  readonly name = 'PowerPoint presentation';
+  readonly extensions = { pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' };
+
+  async extract(buffer: Buffer): Promise<string> {
+    const zip = await JSZip.loadAsync(buffer);
+    const slides = await readSlideOrder(zip);
+    const sections: string[] = [];
+
+    for (const [index, slide] of slides.entries()) {
+      const xml = await readPart(zip, slide);
+      if (!xml) continue;
+
+      const parts = [`Slide ${index + 1}`];
+      parts.push(...readParagraphs(xml, (placeholder) => !placeholder || !SKIPPED_PLACEHOLDERS.has(placeholder)));
+
+      const notes = Array.from((await readRelationships(zip, slide)).values())
+        .find((relationship) => relationship.type.endsWith(NOTES_SLIDE_RELATIONSHIP));
+      const notesXml = notes ? await readPart(zip, notes.target) : null;
+      // The notes text is in the body placeholder; the rest of the notes page repeats the slide
+      const notesText = notesXml ? readParagraphs(notesXml, (placeholder) => placeholder === 'body') : [];
+      if (notesText.length > 0) {
+        parts.push('Speaker notes:', ...notesText);
+      }
+
+      sections.push(parts.join('\n'));
+    }
+
+    return sections.join('\n\n');
+  }
+}
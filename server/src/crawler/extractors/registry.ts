@@ -0,0 +1,36 @@
+import { TextExtractor } from './extractor';
+
+/**
+ * Extractors keyed by file extension and content type. A later registration
+ * for the same extension or content type replaces the earlier one.
+ */
+export class ExtractorRegistry {
+  private contentTypes = new Map<string, TextExtractor>();
+  private extensionTypes = new Map<string, string>();
+
+  register(extractor: TextExtractor): this {
+    for (const [extension, contentType] of Object.entries(extractor.extensions)) {
+      this.extensionTypes.set(extension.toLowerCase(), contentType);
+      this.contentTypes.set(contentType, extractor);
+    }
+    for (const contentType of extractor.contentTypes ?? []) {
+      this.contentTypes.set(contentType, extractor);
+    }
+    return this;
+  }
+
+  forContentType(contentType: string): TextExtractor | undefined {
+    return this.contentTypes.get(contentType);
+  }
+
+  /** Content type of a file name, or undefined when no extractor reads it */
+  contentTypeOf(filename: string): string | undefined {
+    const extension = filename.toLowerCase().split('.').pop() ?? '';
+    return this.extensionTypes.get(extension);
+  }
+
+  /** Every file extension some extractor reads */
+  get extensions(): string[] {
+    return Array.from(this.extensionTypes.keys());
+  }
+}
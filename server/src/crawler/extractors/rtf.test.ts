@@ -0,0 +1,53 @@
+import { isRtf, rtfToText } from './rtf';
+
+describe('isRtf', () => {
+  it('recognises the RTF header', () => {
+    expect(isRtf(Buffer.from('{\\rtf1\\ansi Hello}'))).toBe(true);
+    expect(isRtf(Buffer.from('Hello'))).toBe(false);
+  });
+});
+
+describe('rtfToText', () => {
+  it('reads paragraphs and skips the font table', () => {
+    const rtf = '{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}\\f0 First paragraph.\\par Second \\b bold\\b0  paragraph.\\par}';
+
+    expect(rtfToText(rtf).text).toBe('First paragraph.\n\nSecond bold paragraph.');
+  });
+
+  it('reads the title and author from the info group', () => {
+    const rtf = '{\\rtf1\\ansi{\\info{\\title Travel policy}{\\author J. Smith}}Body\\par}';
+
+    expect(rtfToText(rtf)).toEqual({ text: 'Body', properties: { title: 'Travel policy', author: 'J. Smith' } });
+  });
+
+  it('decodes escaped bytes with the Windows code page by default', () => {
+    expect(rtfToText("{\\rtf1\\ansi \\'93Caf\\'e9\\'94 \\'96 \\'80 5\\par}").text).toBe('“Café” – € 5');
+  });
+
+  it('decodes code page 437 as US OEM', () => {
+    const rtf = "{\\rtf1\\ansi\\ansicpg437 \\'c9\\'cd\\'bb Caf\\'82 \\'9c\\'b0\\par}";
+
+    expect(rtfToText(rtf).text).toBe('╔═╗ Café £░');
+  });
+
+  it('decodes multi-byte code pages', () => {
+    // 日本 in Shift JIS
+    expect(rtfToText("{\\rtf1\\ansi\\ansicpg932 \\'93\\'fa\\'96\\'7b\\par}").text).toBe('日本');
+  });
+
+  it('reads \\u characters and skips their fallback', () => {
+    expect(rtfToText('{\\rtf1\\ansi\\uc1 Stra\\u223?e \\u-4064?\\par}').text).toBe('Straße \uf020');
+  });
+
+  it('marks outline levels as headings', () => {
+    const rtf = '{\\rtf1\\ansi\\pard\\outlinelevel0 Scope\\par\\pard Applies to everyone.\\par}';
+
+    expect(rtfToText(rtf).text).toBe('# Scope\n\nApplies to everyone.');
+  });
+
+  it('renders tables as Markdown', () => {
+    const rtf = '{\\rtf1\\ansi\\trowd\\intbl Grade\\cell Limit\\cell\\row\\trowd\\intbl 1\\cell 50\\cell\\row\\pard After\\par}';
+
+    expect(rtfToText(rtf).text).toBe('| Grade | Limit |\n| --- | --- |\n| 1 | 50 |\n\nAfter');
+  });
+});
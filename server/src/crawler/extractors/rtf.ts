@@ -0,0 +1,263 @@
+import { decoderFor } from './codepage';
+import { DocumentProperties, ExtractedText, TextExtractor } from './extractor';
+import { renderTable } from './table';
+
+// Destinations that hold no document text: tables of fonts, styles and lists,
+// pictures, embedded objects, field codes, and page headers and footers
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl',
+  'generator', 'xmlnstbl', 'themedata', 'colorschememapping', 'latentstyles', 'datastore',
+  'pict', 'objdata', 'fldinst', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf',
+]);
+
+const SYMBOLS: Record<string, string> = {
+  tab: '\t',
+  line: '\n',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+const CONTROL_SYMBOLS: Record<string, string> = {
+  '\\': '\\',
+  '{': '{',
+  '}': '}',
+  '~': ' ',
+  '_': '‑',
+  '-': '',
+};
+
+type Target = 'content' | 'ignored' | keyof DocumentProperties;
+
+/** Groups restore the formatting of their parent when they end */
+interface GroupState {
+  skip: boolean;
+  target: Target;
+  /** Fallback characters that follow a \u character */
+  uc: number;
+  inTable: boolean;
+  outlineLevel: number | null;
+}
+
+export function isRtf(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString('latin1') === '{\\rtf';
+}
+
+/**
+ * Reads RTF one token at a time. Paragraphs become blocks separated by blank
+ * lines, paragraphs with an outline level become Markdown headings and table
+ * rows become Markdown tables. Fonts, colours and other formatting are
+ * ignored.
+ */
+class RtfReader {
+  private blocks: string[] = [];
+  private paragraph = '';
+  private cell = '';
+  private row: string[] = [];
+  private rows: string[][] = [];
+  private properties: DocumentProperties = {};
+  private decoder = decoderFor(1252);
+  private bytes: number[] = [];
+  private fallback = 0;
+
+  read(rtf: string): ExtractedText {
+    const stack: GroupState[] = [];
+    let state: GroupState = { skip: false, target: 'content', uc: 1, inTable: false, outlineLevel: null };
+    let i = 0;
+
+    while (i < rtf.length) {
+      const char = rtf[i];
+
+      if (char !== '\\' || rtf[i + 1] !== "'") this.flushBytes(state);
+
+      if (char === '{') {
+        stack.push(state);
+        state = { ...state };
+        this.fallback = 0;
+        i++;
+      } else if (char === '}') {
+        state = stack.pop() ?? state;
+        this.fallback = 0;
+        i++;
+      } else if (char === '\r' || char === '\n') {
+        i++;
+      } else if (char !== '\\') {
+        if (!state.skip) this.write(state, char);
+        i++;
+      } else {
+        const word = /^\\([a-z]{1,32})(-?\d{1,10})? ?/.exec(rtf.slice(i, i + 45));
+        if (word) {
+          i += word[0].length;
+          const param = word[2] === undefined ? undefined : Number(word[2]);
+          // Binary data follows \binN directly
+          if (word[1] === 'bin') i += param ?? 0;
+          if (!state.skip) this.controlWord(state, word[1], param);
+          continue;
+        }
+
+        const symbol = rtf[i + 1];
+        i += 2;
+        if (state.skip) {
+          if (symbol === "'") i += 2;
+        } else if (symbol === "'") {
+          const byte = parseInt(rtf.slice(i, i + 2), 16);
+          i += 2;
+          if (this.fallback > 0) this.fallback--;
+          else if (!Number.isNaN(byte)) this.bytes.push(byte);
+        } else if (symbol === '*') {
+          // Destinations that readers may not know; none of them are text
+          state.skip = true;
+        } else if (symbol === '\r' || symbol === '\n') {
+          this.endParagraph(state);
+        } else if (symbol in CONTROL_SYMBOLS) {
+          this.write(state, CONTROL_SYMBOLS[symbol]);
+        }
+      }
+    }
+
+    this.flushBytes(state);
+    this.endParagraph(state);
+    this.flushTable();
+    return { text: this.blocks.join('\n\n'), properties: this.properties };
+  }
+
+  private controlWord(state: GroupState, word: string, param: number | undefined): void {
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      return;
+    }
+    if (this.fallback > 0) {
+      this.fallback--;
+      return;
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        this.decoder = decoderFor(param ?? 1252);
+        break;
+      case 'mac':
+        this.decoder = decoderFor(10000);
+        break;
+      case 'info':
+        state.target = 'ignored';
+        break;
+      case 'title':
+      case 'author':
+        if (state.target === 'ignored') state.target = word;
+        break;
+      case 'uc':
+        state.uc = param ?? 1;
+        break;
+      case 'u':
+        // Negative values stand for code units above 32767
+        this.write(state, String.fromCharCode(((param ?? 0) + 0x10000) % 0x10000));
+        this.fallback = state.uc;
+        break;
+      case 'par':
+      case 'sect':
+      case 'page':
+        this.endParagraph(state);
+        break;
+      case 'pard':
+        state.inTable = false;
+        state.outlineLevel = null;
+        break;
+      case 'intbl':
+        state.inTable = true;
+        break;
+      case 'outlinelevel':
+        state.outlineLevel = param ?? 0;
+        break;
+      case 'cell':
+        if (state.target !== 'content') break;
+        this.row.push(this.cell.trim());
+        this.cell = '';
+        break;
+      case 'row':
+        if (state.target !== 'content') break;
+        this.rows.push(this.row);
+        this.row = [];
+        break;
+      case 'nestcell':
+        // Nested tables are flattened into the cell that holds them
+        this.write(state, ' ');
+        break;
+      default:
+        if (word in SYMBOLS) this.write(state, SYMBOLS[word]);
+    }
+  }
+
+  private write(state: GroupState, text: string): void {
+    if (this.fallback > 0) {
+      this.fallback--;
+      return;
+    }
+    if (state.target === 'content') {
+      if (state.inTable) this.cell += text;
+      else this.paragraph += text;
+    } else if (state.target !== 'ignored') {
+      this.properties[state.target] = (this.properties[state.target] ?? '') + text;
+    }
+  }
+
+  // Runs of \'hh escapes are decoded together, multi-byte code pages need it
+  private flushBytes(state: GroupState): void {
+    if (this.bytes.length === 0) return;
+    const text = this.decoder.decode(new Uint8Array(this.bytes));
+    this.bytes = [];
+    this.write(state, text);
+  }
+
+  private endParagraph(state: GroupState): void {
+    if (state.target !== 'content') return;
+    if (state.inTable) {
+      this.cell += ' ';
+      return;
+    }
+
+    const text = this.paragraph.replace(/[ \t]+\n/g, '\n').trim();
+    this.paragraph = '';
+    if (!text) return;
+
+    this.flushTable();
+    this.blocks.push(state.outlineLevel !== null && state.outlineLevel < 6
+      ? `${'#'.repeat(state.outlineLevel + 1)} ${text.replace(/\s+/g, ' ')}`
+      : text.replace(/^#/gm, '\\#'));
+  }
+
+  private flushTable(): void {
+    if (this.row.length > 0) this.rows.push(this.row);
+    if (this.rows.length > 0) this.blocks.push(renderTable(this.rows));
+    this.row = [];
+    this.rows = [];
+  }
+}
+
+/** Text and the title and author from the info group of an RTF document */
+export function rtfToText(rtf: string): ExtractedText {
+  const { text, properties = {} } = new RtfReader().read(rtf);
+  const title = properties.title?.trim();
+  const author = properties.author?.trim();
+  return {
+    text,
+    properties: { ...(title ? { title } : {}), ...(author ? { author } : {}) },
+  };
+}
+
+export class RtfExtractor implements TextExtractor {
+  readonly name = 'RTF document';
+  readonly extensions = { rtf: 'application/rtf' };
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    // RTF is 7-bit; other characters are escaped and decoded with the document's code page
+    return rtfToText(buffer.toString('latin1'));
+  }
+}
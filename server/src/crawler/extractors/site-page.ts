@@ -0,0 +1,57 @@
+import { DocumentMetadata } from '../../shared/types';
+import { TextExtractor } from './extractor';
+import { OpenElement, htmlToText } from './html';
+
+// Content type of the JSON the SharePoint connector downloads for a site page
+export const SITE_PAGE_CONTENT_TYPE = 'application/vnd.sharepoint.sitepage+json';
+
+export interface SitePageContent {
+  title: string;
+  description?: string;
+  /** CanvasContent1 of a modern page, or WikiField of a classic wiki page */
+  html: string;
+}
+
+/**
+ * Text web parts, and the searchable properties and links other web parts
+ * publish in `data-sp-htmlproperties`. Control data and component ids are
+ * left out.
+ */
+function isCanvasContent(tag: string, attributes: Record<string, string>, ancestors: OpenElement[]): boolean {
+  if ('data-sp-rte' in attributes) return true;
+
+  const inProperties = ancestors.some((element) => 'data-sp-htmlproperties' in element.attributes);
+  return inProperties && ('data-sp-prop-name' in attributes || tag === 'a');
+}
+
+/**
+ * Converts a site page to plain text: title, description, then the canvas,
+ * with headings marked up as in Markdown.
+ * Links keep their target next to the link text so embedded documents can be
+ * found by URL.
+ */
+export function extractSitePageText(page: SitePageContent, pageUrl: string): string {
+  // Classic wiki pages are plain HTML without canvas markup
+  const canvas = page.html.includes('data-sp-canvascontrol');
+  const { text } = htmlToText(page.html, {
+    linkBaseUrl: pageUrl,
+    isContent: canvas ? isCanvasContent : undefined,
+    headings: true,
+  });
+
+  // Text web part headings start at h2, below the page title
+  return [page.title && `# ${page.title}`, page.description, text]
+    .filter((part) => part && part.trim())
+    .join('\n\n');
+}
+
+export class SitePageExtractor implements TextExtractor {
+  readonly name = 'Site page';
+  readonly extensions = {};
+  readonly contentTypes = [SITE_PAGE_CONTENT_TYPE];
+
+  async extract(buffer: Buffer, metadata: DocumentMetadata): Promise<string> {
+    const page = JSON.parse(buffer.toString('utf-8')) as SitePageContent;
+    return extractSitePageText(page, metadata.url);
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Renders rows as a Markdown table with the first row as the header. Empty
+ * rows and empty trailing columns are dropped; pipes and line breaks inside
+ * cells are escaped so every row stays on one line.
+ */
+export function renderTable(rows: string[][]): string {
+  const cleaned = rows
+    .map((row) => row.map((cell) => cell.replace(/\s*\r?\n\s*/g, ' ').replace(/\|/g, '\\|').trim()))
+    .filter((row) => row.some((cell) => cell !== ''));
+  if (cleaned.length === 0) return '';
+
+  let width = 0;
+  for (const row of cleaned) {
+    for (let i = row.length - 1; i >= width; i--) {
+      if (row[i] !== '') {
+        width = i + 1;
+        break;
+      }
+    }
+  }
+
+  const format = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => row[i] ?? '').join(' | ')} |`;
+
+  const [header, ...body] = cleaned;
+  return [format(header), `|${' --- |'.repeat(width)}`, ...body.map(format)].join('\n');
+}
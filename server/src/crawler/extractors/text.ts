@@ -0,0 +1,25 @@
+import { TextExtractor } from './extractor';
+
+/**
+ * Decodes text files as UTF-8 unless a byte order mark says UTF-16.
+ */
+export function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    // Node has no big-endian decoder; swap to little-endian (swap16 needs an even length)
+    const swapped = Buffer.from(buffer.subarray(2, buffer.length - (buffer.length % 2)));
+    return swapped.swap16().toString('utf16le');
+  }
+  return buffer.toString('utf-8').replace(/^\uFEFF/, '');
+}
+
+export class PlainTextExtractor implements TextExtractor {
+  readonly name = 'Text file';
+  readonly extensions = { txt: 'text/plain' };
+
+  async extract(buffer: Buffer): Promise<string> {
+    return decodeText(buffer);
+  }
+}
@@ -0,0 +1,26 @@
+import mammoth from 'mammoth';
+import { logger } from '../../shared/logger';
+import { TextExtractor } from './extractor';
+import { htmlToText } from './html';
+
+/**
+ * Reads Word documents through mammoth's HTML output, which maps heading
+ * styles to h1-h6, so headings survive as Markdown headings. Word 97-2003
+ * files are read by DocExtractor.
+ */
+export class WordExtractor implements TextExtractor {
+  readonly name = 'Word document';
+  readonly extensions = {
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  };
+
+  async extract(buffer: Buffer): Promise<string> {
+    const result = await mammoth.convertToHtml({ buffer });
+
+    if (result.messages.length > 0) {
+      logger.warn('Word document extraction warnings', { messages: result.messages });
+    }
+
+    return htmlToText(result.value, { headings: true }).text;
+  }
+}
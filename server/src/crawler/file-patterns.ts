@@ -0,0 +1,29 @@
+/**
+ * Minimal filename glob matching for source include/exclude filters.
+ * Supports `*` (any run of characters) and `?` (a single character);
+ * matching is case-insensitive, like SharePoint file names.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function matchesFilePatterns(
+  filename: string,
+  include: string[] = [],
+  exclude: string[] = []
+): boolean {
+  if (include.length > 0 && !include.some((pattern) => globToRegExp(pattern).test(filename))) {
+    return false;
+  }
+
+  return !exclude.some((pattern) => globToRegExp(pattern).test(filename));
+}
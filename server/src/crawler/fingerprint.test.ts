@@ -0,0 +1,74 @@
+import { FingerprintIndex, computeFingerprint, similarity } from './fingerprint';
+
+/** Deterministic text of distinct words, different for each seed */
+function words(count: number, seed: number): string[] {
+  return Array.from({ length: count }, (_, i) => `w${((i + 1) * 7919 + seed * 104729) % 100003}`);
+}
+
+describe('computeFingerprint', () => {
+  const text = words(500, 1).join(' ');
+
+  it('is undefined for fewer than 20 words', () => {
+    expect(computeFingerprint(words(19, 1).join(' '))).toBeUndefined();
+    expect(computeFingerprint(words(20, 1).join(' '))).toBeDefined();
+  });
+
+  it('ignores case, punctuation and Markdown markup', () => {
+    const formatted = `# ${words(500, 1).map((word, i) => (i % 10 === 0 ? `**${word.toUpperCase()}**,` : word)).join(' ')}`;
+
+    expect(similarity(computeFingerprint(text)!, computeFingerprint(formatted)!)).toBe(1);
+  });
+
+  it('rates identical texts 1', () => {
+    expect(similarity(computeFingerprint(text)!, computeFingerprint(text)!)).toBe(1);
+  });
+
+  it('rates a copy with a few words changed above 0.9', () => {
+    const edited = words(500, 1);
+    for (const i of [50, 250, 450]) edited[i] = 'changed';
+
+    const estimate = similarity(computeFingerprint(text)!, computeFingerprint(edited.join(' '))!);
+    expect(estimate).toBeGreaterThan(0.9);
+    expect(estimate).toBeLessThan(1);
+  });
+
+  it('rates unrelated texts near 0', () => {
+    expect(similarity(computeFingerprint(text)!, computeFingerprint(words(500, 2).join(' '))!)).toBeLessThan(0.05);
+  });
+
+  it('rates a text sharing its first half about 1/3', () => {
+    const half = [...words(250, 1), ...words(250, 3)].join(' ');
+    const estimate = similarity(computeFingerprint(text)!, computeFingerprint(half)!);
+
+    expect(estimate).toBeGreaterThan(0.2);
+    expect(estimate).toBeLessThan(0.5);
+  });
+});
+
+describe('FingerprintIndex', () => {
+  const fingerprint = (seed: number, changed: number[] = []) => {
+    const text = words(500, seed);
+    for (const i of changed) text[i] = 'changed';
+    return computeFingerprint(text.join(' '))!;
+  };
+
+  it('finds near-duplicates but not unrelated documents', () => {
+    const index = new FingerprintIndex();
+    index.add('policy', fingerprint(1));
+    index.add('copy', fingerprint(1, [50, 250, 450]));
+    for (let seed = 2; seed <= 11; seed++) index.add(`other-${seed}`, fingerprint(seed));
+
+    expect(index.candidates(fingerprint(1, [100]))).toEqual(new Set(['policy', 'copy']));
+  });
+
+  it('forgets removed and replaced fingerprints', () => {
+    const index = new FingerprintIndex();
+    index.add('policy', fingerprint(1));
+    index.add('copy', fingerprint(1));
+    index.remove('policy');
+    index.add('copy', fingerprint(2));
+
+    expect(index.candidates(fingerprint(1))).toEqual(new Set());
+    expect(index.candidates(fingerprint(2))).toEqual(new Set(['copy']));
+  });
+});
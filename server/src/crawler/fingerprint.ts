@@ -0,0 +1,127 @@
+// Documents are compared by the word sequences of this length they share
+const SHINGLE_WORDS = 5;
+// Min-hash values per fingerprint; estimates are within about ±0.03 of the real similarity around 0.9
+const HASH_COUNT = 128;
+// Shorter texts (cover sheets, empty forms) are too alike to tell copies from templates
+const MIN_WORDS = 20;
+// Locality-sensitive hashing: documents sharing all hashes of at least one band
+// are compared. With 32 bands of 4, a pair 0.7 similar is found 99.98% of the
+// time, one 0.3 similar 23% and unrelated documents practically never.
+const BANDS = 32;
+const ROWS = HASH_COUNT / BANDS;
+
+const SEEDS = Array.from({ length: HASH_COUNT }, (_, i) => mix(i + 1));
+
+/** MurmurHash3 finalizer: spreads the bits of a 32-bit value */
+function mix(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/** FNV-1a */
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * MinHash signature of the word shingles of a text, base64-encoded for the
+ * manifest. Case, punctuation and Markdown markup are ignored, so the same
+ * document saved as PDF and Word still matches. Undefined for texts of
+ * fewer than 20 words.
+ */
+export function computeFingerprint(text: string): string | undefined {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length < MIN_WORDS) return undefined;
+
+  const signature = new Uint32Array(HASH_COUNT).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    const shingle = hashString(words.slice(i, i + SHINGLE_WORDS).join(' '));
+    for (let j = 0; j < HASH_COUNT; j++) {
+      const value = mix(shingle ^ SEEDS[j]);
+      if (value < signature[j]) signature[j] = value;
+    }
+  }
+  return Buffer.from(signature.buffer).toString('base64');
+}
+
+function decode(fingerprint: string): Uint32Array {
+  return new Uint32Array(new Uint8Array(Buffer.from(fingerprint, 'base64')).buffer);
+}
+
+/** Estimated Jaccard similarity (0-1) of the shingles of two fingerprinted texts */
+export function similarity(a: string, b: string): number {
+  const left = decode(a);
+  const right = decode(b);
+  if (left.length !== right.length) return 0;
+
+  let equal = 0;
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] === right[i]) equal++;
+  }
+  return equal / left.length;
+}
+
+/** One key per band of a fingerprint's hashes */
+function bandKeys(fingerprint: string): number[] {
+  const signature = decode(fingerprint);
+  if (signature.length !== HASH_COUNT) return [];
+
+  const keys: number[] = [];
+  for (let band = 0; band < BANDS; band++) {
+    let key = mix(band + 1);
+    for (let row = band * ROWS; row < (band + 1) * ROWS; row++) {
+      key = mix(key ^ signature[row]);
+    }
+    keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Finds the fingerprints that may be similar to a given one without comparing
+ * it to all of them, by bucketing them on their bands of hashes. Candidates
+ * still need to be checked with similarity().
+ */
+export class FingerprintIndex {
+  private buckets = new Map<number, Set<string>>();
+  private keys = new Map<string, number[]>();
+
+  add(id: string, fingerprint: string): void {
+    this.remove(id);
+    const keys = bandKeys(fingerprint);
+    for (const key of keys) {
+      const bucket = this.buckets.get(key) ?? new Set<string>();
+      bucket.add(id);
+      this.buckets.set(key, bucket);
+    }
+    this.keys.set(id, keys);
+  }
+
+  remove(id: string): void {
+    for (const key of this.keys.get(id) ?? []) {
+      const bucket = this.buckets.get(key)!;
+      bucket.delete(id);
+      if (bucket.size === 0) this.buckets.delete(key);
+    }
+    this.keys.delete(id);
+  }
+
+  /** Ids whose fingerprint shares at least one band with this one */
+  candidates(fingerprint: string): Set<string> {
+    const ids = new Set<string>();
+    for (const key of bandKeys(fingerprint)) {
+      for (const id of this.buckets.get(key) ?? []) ids.add(id);
+    }
+    return ids;
+  }
+}
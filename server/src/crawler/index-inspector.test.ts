@@ -0,0 +1,47 @@
+import { IndexInspector } from './index-inspector';
+
+const mockManifest = new Map<string, { id: string; chunkCount: number }>();
+const mockPages: { vectors: { id: string }[]; pagination?: { next: string } }[] = [];
+const mockListPaginated = jest.fn(async ({ paginationToken }: { paginationToken?: string }) => {
+  if (mockPages.length === 0) throw new Error('Listing is not supported for pod-based indexes');
+  return mockPages[paginationToken ? Number(paginationToken) : 0];
+});
+
+jest.mock('@pinecone-database/pinecone', () => ({
+  Pinecone: jest.fn().mockImplementation(() => ({
+    Index: () => ({ listPaginated: mockListPaginated }),
+  })),
+}));
+jest.mock('./manifest', () => ({
+  CrawlManifest: jest.fn().mockImplementation(() => ({
+    load: async () => undefined,
+    get: (id: string) => mockManifest.get(id),
+  })),
+}));
+jest.mock('../shared/run-history', () => ({ CrawlRunHistory: jest.fn() }));
+jest.mock('../shared/config', () => ({ config: { pinecone: { apiKey: 'key', indexName: 'index' }, crawler: { maxRetries: 0 } } }));
+jest.mock('../shared/logger', () => ({ logger: { warn: jest.fn(), debug: jest.fn() } }));
+
+describe('IndexInspector.orphans', () => {
+  beforeEach(() => {
+    mockManifest.clear();
+    mockPages.length = 0;
+    mockListPaginated.mockClear();
+  });
+
+  it('finds vectors of unknown documents and trailing chunks across pages', async () => {
+    mockManifest.set('doc-a', { id: 'doc-a', chunkCount: 2 });
+    mockManifest.set('b0c1-d2', { id: 'b0c1-d2', chunkCount: 1 });
+    mockPages.push(
+      { vectors: [{ id: 'doc-a-0' }, { id: 'doc-a-1' }, { id: 'doc-a-2' }], pagination: { next: '1' } },
+      { vectors: [{ id: 'b0c1-d2-0' }, { id: 'deleted-doc-0' }, { id: '1717400000000-3' }] }
+    );
+
+    expect(await new IndexInspector().orphans()).toEqual(['doc-a-2', 'deleted-doc-0', '1717400000000-3']);
+    expect(mockListPaginated).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns null when the index cannot list its ids', async () => {
+    expect(await new IndexInspector().orphans()).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { Index, Pinecone } from '@pinecone-database/pinecone';
+import { CrawlManifest } from './manifest';
+import { chunkVectorId } from '../shared/langchain-pinecone-adapter';
+import { CrawlRunHistory } from '../shared/run-history';
+import { config } from '../shared/config';
+import { logger } from '../shared/logger';
+import { withRetry } from '../shared/retry';
+import { CrawlRunSummary, ManifestEntry } from '../shared/types';
+
+export interface SourceStats {
+  sourceId: string;
+  documents: number;
+  chunks: number;
+  /** When the most recently indexed document of the source was indexed */
+  lastIndexedAt?: string;
+}
+
+export interface IndexReport {
+  sources: SourceStats[];
+  documents: number;
+  chunks: number;
+  /** Vector count reported by Pinecone; null when the index could not be reached */
+  vectors: number | null;
+  dimension: number | null;
+  lastRun?: CrawlRunSummary;
+}
+
+export interface VerifyReport {
+  documentsChecked: number;
+  /** Indexed documents with chunks missing from Pinecone */
+  missing: { entry: ManifestEntry; missingChunks: number }[];
+  /**
+   * Vectors that belong to no indexed document (or to chunks past its
+   * current length). Null when orphans were not checked: for a subset of
+   * sources, or when the index does not support listing ids (pod-based indexes).
+   */
+  orphans: string[] | null;
+}
+
+// Ids per fetch request; fetch also returns the vector values
+const FETCH_BATCH_SIZE = 100;
+
+/**
+ * Read-only views of the crawl manifest and the Pinecone index for the
+ * crawler CLI (list, stats and verify). Vector ids follow chunkVectorId, so
+ * the manifest alone tells which vectors should exist.
+ */
+export class IndexInspector {
+  private manifest = new CrawlManifest();
+  private history = new CrawlRunHistory();
+  private index: Index = new Pinecone({ apiKey: config.pinecone.apiKey }).Index(config.pinecone.indexName);
+
+  async list(sourceIds?: string[]): Promise<ManifestEntry[]> {
+    await this.manifest.load();
+    return this.entries(sourceIds).sort(
+      (a, b) => a.sourceId.localeCompare(b.sourceId) || a.url.localeCompare(b.url)
+    );
+  }
+
+  async stats(): Promise<IndexReport> {
+    await this.manifest.load();
+
+    const sources = new Map<string, SourceStats>(
+      config.crawler.sources.map((source) => [source.id, { sourceId: source.id, documents: 0, chunks: 0 }])
+    );
+    for (const entry of this.manifest.entries()) {
+      // Documents of sources removed from the configuration are still listed
+      let stats = sources.get(entry.sourceId);
+      if (!stats) {
+        stats = { sourceId: entry.sourceId, documents: 0, chunks: 0 };
+        sources.set(entry.sourceId, stats);
+      }
+      stats.documents++;
+      stats.chunks += entry.chunkCount;
+      if (!stats.lastIndexedAt || entry.indexedAt > stats.lastIndexedAt) {
+        stats.lastIndexedAt = entry.indexedAt;
+      }
+    }
+
+    let vectors: number | null = null;
+    let dimension: number | null = null;
+    try {
+      const description = await withRetry(() => this.index.describeIndexStats(), { label: 'describe index' });
+      vectors = description.totalRecordCount ?? 0;
+      dimension = description.dimension ?? null;
+    } catch (error) {
+      logger.warn('Failed to read Pinecone index stats', { error: error instanceof Error ? error.message : error });
+    }
+
+    const [lastRun] = await this.history.list(1);
+
+    return {
+      sources: Array.from(sources.values()),
+      documents: this.manifest.size,
+      chunks: this.manifest.totalChunks,
+      vectors,
+      dimension,
+      lastRun,
+    };
+  }
+
+  /**
+   * Checks that every chunk of every indexed document has a vector and, when
+   * all sources are checked, that there are no vectors the manifest does not
+   * know about.
+   */
+  async verify(sourceIds?: string[]): Promise<VerifyReport> {
+    await this.manifest.load();
+    const entries = this.entries(sourceIds);
+
+    const owners = new Map<string, ManifestEntry>();
+    for (const entry of entries) {
+      for (let i = 0; i < entry.chunkCount; i++) {
+        owners.set(chunkVectorId(entry.id, i), entry);
+      }
+    }
+
+    const missingChunks = new Map<ManifestEntry, number>();
+    const ids = Array.from(owners.keys());
+    for (let start = 0; start < ids.length; start += FETCH_BATCH_SIZE) {
+      const batch = ids.slice(start, start + FETCH_BATCH_SIZE);
+      const { records } = await withRetry(() => this.index.fetch({ ids: batch }), {
+        label: `fetch ${batch.length} vectors`,
+      });
+
+      for (const id of batch) {
+        if (records[id]) continue;
+        const entry = owners.get(id)!;
+        missingChunks.set(entry, (missingChunks.get(entry) ?? 0) + 1);
+      }
+
+      logger.debug(`Checked ${Math.min(start + FETCH_BATCH_SIZE, ids.length)} of ${ids.length} vectors`);
+    }
+
+    return {
+      documentsChecked: entries.length,
+      missing: Array.from(missingChunks, ([entry, count]) => ({ entry, missingChunks: count })),
+      orphans: sourceIds?.length ? null : await this.findOrphans(),
+    };
+  }
+
+  /**
+   * Vectors the manifest does not know about; null when the index does not
+   * support listing ids (pod-based indexes)
+   */
+  async orphans(): Promise<string[] | null> {
+    await this.manifest.load();
+    return this.findOrphans();
+  }
+
+  private async findOrphans(): Promise<string[] | null> {
+    const orphans: string[] = [];
+    let paginationToken: string | undefined;
+
+    try {
+      do {
+        const page = await withRetry(() => this.index.listPaginated({ paginationToken }), {
+          label: 'list vector ids',
+        });
+
+        for (const { id } of page.vectors ?? []) {
+          if (id && !this.isExpectedVector(id)) orphans.push(id);
+        }
+        paginationToken = page.pagination?.next;
+      } while (paginationToken);
+    } catch (error) {
+      logger.warn('Could not list vector ids; skipping the orphan check', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return null;
+    }
+
+    return orphans;
+  }
+
+  private isExpectedVector(id: string): boolean {
+    // Document ids can contain dashes themselves, the chunk index is after the last one
+    const separator = id.lastIndexOf('-');
+    const entry = separator > 0 ? this.manifest.get(id.slice(0, separator)) : undefined;
+    const chunkIndex = Number(id.slice(separator + 1));
+    return !!entry && Number.isInteger(chunkIndex) && chunkIndex < entry.chunkCount;
+  }
+
+  private entries(sourceIds?: string[]): ManifestEntry[] {
+    const entries = this.manifest.entries();
+    return sourceIds?.length ? entries.filter((entry) => sourceIds.includes(entry.sourceId)) : entries;
+  }
+}
@@ -1,119 +1,275 @@
 #!/usr/bin/env node
 
-import { SharePointClient } from './sharepoint-client';
-import { DocumentProcessor } from './document-processor';
-import { Indexer } from './indexer';
-import { VectorStore } from '../shared/vector-store';
+import { Crawler, CrawlPlan } from './crawler';
+import { IndexInspector } from './index-inspector';
 import { logger } from '../shared/logger';
-import { CrawlError, ProcessedDocument, IndexStats } from '../shared/types';
+import { CrawlTrigger } from '../shared/types';
 
-async function main() {
-  const startTime = new Date();
-  const errors: CrawlError[] = [];
-  let documentsProcessed = 0;
-  let documentsSkipped = 0;
-  const processedDocuments: ProcessedDocument[] = [];
+const TRIGGERS: CrawlTrigger[] = ['manual', 'schedule', 'startup', 'cli'];
 
-  try {
-    logger.info('Starting SharePoint crawler');
-
-    // Initialize SharePoint client
-    const spClient = new SharePointClient();
-    await spClient.initialize();
-
-    // List all documents
-    const documents = await spClient.listDocuments();
-    logger.info(`Found ${documents.length} documents to process`);
-
-    // Process each document
-    const processor = new DocumentProcessor();
-
-    for (const docMetadata of documents) {
-      try {
-        logger.info(`Processing: ${docMetadata.filename}`);
-
-        // Download document
-        const buffer = await spClient.downloadDocument(docMetadata.path);
-
-        // Process document
-        const processedDoc = await processor.processDocument(buffer, docMetadata);
-        processedDocuments.push(processedDoc);
-
-        documentsProcessed++;
-        logger.info(`Successfully processed: ${docMetadata.filename}`);
-      } catch (error) {
-        documentsSkipped++;
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        
-        logger.error(`Failed to process: ${docMetadata.filename}`, { error: errorMessage });
-        
-        errors.push({
-          filename: docMetadata.filename,
-          error: errorMessage,
-          timestamp: new Date(),
-        });
-
-        // Continue processing other documents (error recovery strategy)
-        continue;
-      }
-    }
+const USAGE = `Usage: npm run crawler -- [command] [options]
 
-    // Create or update Pinecone index
-    logger.info('Creating Pinecone index');
-    const indexer = new Indexer();
-    const vectorStore = await indexer.createIndex(processedDocuments);
-
-    // Calculate stats
-    const totalChunks = processedDocuments.reduce(
-      (sum, doc) => sum + doc.chunks.length,
-      0
-    );
-
-    const stats: IndexStats = {
-      totalDocuments: documentsProcessed,
-      totalChunks,
-      lastUpdated: new Date(),
-      indexSize: 0,
-    };
-
-    // Persist stats reference
-    logger.info('Updating Pinecone index metadata');
-    const vectorStoreManager = new VectorStore();
-    await vectorStoreManager.save(vectorStore, stats);
-
-    const endTime = new Date();
-    const duration = endTime.getTime() - startTime.getTime();
-
-    // const result: CrawlResult = {
-    //   documentsProcessed,
-    //   documentsSkipped,
-    //   errors,
-    //   startTime,
-    //   endTime,
-    //   duration,
-    // };
-
-    logger.info('Crawl completed', {
-      documentsProcessed,
-      documentsSkipped,
-      totalChunks,
-      duration: `${(duration / 1000).toFixed(2)}s`,
-      errorCount: errors.length,
-    });
+Commands:
+  crawl                  Crawl all sources (default); incremental unless --full
+  reindex <id|url>...    Download and re-index single documents, changed or not
+  purge <id|url>...      Delete single documents from the index
+  list                   List indexed documents
+  stats                  Show document, chunk and vector counts
+  verify                 Check that Pinecone holds every chunk in the crawl manifest
+
+Options:
+  --full                 crawl: enumerate every source instead of reading the change log
+  --resume, --restart    crawl: require resuming an interrupted run / discard it
+  --source=<id,...>      crawl, list, verify: only these sources
+  --dry-run              crawl, reindex, purge: print what would change, change nothing
+  --json                 list, stats, verify: print JSON
+`;
+
+/** Values of `--name=value` arguments; repeated or comma-separated values are combined */
+function argValues(name: string): string[] {
+  const prefix = `--${name}=`;
+  return process.argv
+    .filter((arg) => arg.startsWith(prefix))
+    .flatMap((arg) => arg.slice(prefix.length).split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+// Command output goes to stdout next to the log lines
+function print(line = ''): void {
+  process.stdout.write(`${line}\n`);
+}
 
-    if (errors.length > 0) {
-      logger.warn('Crawl completed with errors', { errors });
+async function crawl(): Promise<number> {
+  const trigger = argValues('trigger')[0] ?? 'cli';
+  if (!TRIGGERS.includes(trigger as CrawlTrigger)) {
+    throw new Error(`Unknown trigger: ${trigger}`);
+  }
+
+  const crawler = new Crawler();
+
+  if (hasFlag('dry-run')) {
+    printPlans(await crawler.plan({ full: hasFlag('full'), sources: argValues('source') }));
+    return 0;
+  }
+
+  logger.info('Starting SharePoint crawler');
+
+  // First signal stops gracefully after the documents in flight, a second one exits immediately.
+  // SIGTERM and SIGINT (shutdown, container restart, Ctrl+C) interrupt the run and the next
+  // run resumes it; SIGUSR2, sent when a crawl is cancelled from the API, ends it.
+  let stopping = false;
+  const handleSignal = (signal: NodeJS.Signals) => {
+    if (stopping) {
+      logger.warn(`${signal} received again; exiting without saving progress`);
+      process.exit(1);
     }
+    stopping = true;
+    logger.info(`${signal} received; stopping crawl`);
+    crawler.stop(signal !== 'SIGUSR2');
+  };
+  process.on('SIGTERM', handleSignal);
+  process.on('SIGINT', handleSignal);
+  process.on('SIGUSR2', handleSignal);
+
+  const result = await crawler.run({
+    full: hasFlag('full'),
+    checkpoint: hasFlag('restart') ? 'restart' : hasFlag('resume') ? 'resume' : 'auto',
+    // Set by the API for crawls started from the admin page or the scheduler
+    trigger: trigger as CrawlTrigger,
+    progress: hasFlag('progress'),
+    sources: argValues('source'),
+  });
 
-    process.exit(0);
+  const outcome = result.interrupted ? 'interrupted; the next run resumes it' : result.cancelled ? 'cancelled' : 'completed';
+  logger.info(`Crawl ${outcome}`, {
+    documentsProcessed: result.documentsProcessed,
+    documentsUnchanged: result.documentsUnchanged,
+    documentsDeleted: result.documentsDeleted,
+    documentsSkipped: result.documentsSkipped,
+    duration: `${(result.duration / 1000).toFixed(2)}s`,
+    errorCount: result.errors.length,
+  });
+
+  if (result.errors.length > 0) {
+    logger.warn('Crawl completed with errors', { errors: result.errors });
+  }
+
+  return 0;
+}
+
+function printPlans(plans: CrawlPlan[]): void {
+  for (const plan of plans) {
+    print(`Source ${plan.sourceId} (${plan.mode === 'changes' ? 'change log' : 'full listing'})`);
+    for (const doc of plan.added) print(`  + ${doc.filename}  ${doc.url}`);
+    for (const doc of plan.updated) print(`  ~ ${doc.filename}  ${doc.url}`);
+    for (const entry of plan.deleted) print(`  - ${entry.filename}  ${entry.url}`);
+
+    const summary = [
+      `${plan.added.length} to add`,
+      `${plan.updated.length} to update`,
+      `${plan.deleted.length} to delete`,
+      `${plan.unchanged} unchanged`,
+    ];
+    if (plan.unpublished > 0) summary.push(`${plan.unpublished} without a published version`);
+    print(`  ${summary.join(', ')}`);
+    print();
+  }
+  print('Dry run: nothing was downloaded, indexed or deleted.');
+}
+
+async function reindex(targets: string[]): Promise<number> {
+  if (targets.length === 0) {
+    throw new Error('reindex needs at least one document id or URL');
+  }
+
+  const dryRun = hasFlag('dry-run');
+  const result = await new Crawler().reindex(targets, dryRun);
+
+  for (const doc of result.documents) print(`  ~ ${doc.filename}  ${doc.url}`);
+  for (const target of result.notFound) print(`  ? not found: ${target}`);
+  for (const error of result.errors) print(`  ! ${error.filename}: ${error.error}`);
+
+  print(dryRun ? `Dry run: would re-index ${result.documents.length} documents` : `Re-indexed ${result.succeeded} documents`);
+  return result.notFound.length > 0 || result.errors.length > 0 ? 1 : 0;
+}
+
+async function purge(targets: string[]): Promise<number> {
+  if (targets.length === 0) {
+    throw new Error('purge needs at least one document id or URL');
+  }
+
+  const dryRun = hasFlag('dry-run');
+  const result = await new Crawler().purge(targets, dryRun);
+
+  for (const entry of result.documents) print(`  - ${entry.filename}  ${entry.url}`);
+  for (const target of result.notFound) print(`  ? not indexed: ${target}`);
+  for (const error of result.errors) print(`  ! ${error.filename}: ${error.error}`);
+
+  print(dryRun ? `Dry run: would purge ${result.documents.length} documents` : `Purged ${result.succeeded} documents`);
+  return result.notFound.length > 0 || result.errors.length > 0 ? 1 : 0;
+}
+
+async function list(): Promise<number> {
+  const entries = await new IndexInspector().list(argValues('source'));
+
+  if (hasFlag('json')) {
+    print(JSON.stringify(entries, null, 2));
+    return 0;
+  }
+
+  for (const entry of entries) {
+    print([
+      entry.id,
+      entry.sourceId,
+      `${entry.chunkCount} chunks`,
+      entry.indexedAt.slice(0, 16).replace('T', ' '),
+      entry.url,
+    ].join('  '));
+  }
+  print(`${entries.length} documents`);
+  return 0;
+}
+
+async function stats(): Promise<number> {
+  const report = await new IndexInspector().stats();
+
+  if (hasFlag('json')) {
+    print(JSON.stringify(report, null, 2));
+    return 0;
+  }
+
+  print(`Documents: ${report.documents} (${report.chunks} chunks)`);
+  print(report.vectors === null
+    ? 'Pinecone:  unavailable'
+    : `Pinecone:  ${report.vectors} vectors, dimension ${report.dimension ?? 'unknown'}`);
+  if (report.lastRun) {
+    const run = report.lastRun;
+    print(`Last crawl: ${run.status} at ${run.startTime} (${run.trigger}${run.full ? ', full' : ''}, ${run.errorCount} errors)`);
+  }
+  print('Sources:');
+  for (const source of report.sources) {
+    print(`  ${source.sourceId}: ${source.documents} documents, ${source.chunks} chunks${
+      source.lastIndexedAt ? `, last indexed ${source.lastIndexedAt}` : ''
+    }`);
+  }
+  return 0;
+}
+
+async function verify(): Promise<number> {
+  const report = await new IndexInspector().verify(argValues('source'));
+  const healthy = report.missing.length === 0 && (report.orphans?.length ?? 0) === 0;
+
+  if (hasFlag('json')) {
+    print(JSON.stringify(report, null, 2));
+    return healthy ? 0 : 1;
+  }
+
+  print(`Checked ${report.documentsChecked} documents`);
+  for (const { entry, missingChunks } of report.missing) {
+    print(`  ! ${entry.filename}: ${missingChunks} of ${entry.chunkCount} chunks missing (${entry.id})`);
+  }
+  if (report.missing.length > 0) {
+    print(`${report.missing.length} documents have missing chunks; fix them with: npm run crawler -- reindex <id>`);
+  }
+
+  if (report.orphans === null) {
+    print('Orphaned vectors were not checked');
+  } else if (report.orphans.length > 0) {
+    for (const id of report.orphans.slice(0, 20)) print(`  ? ${id}`);
+    print(`${report.orphans.length} vectors belong to no indexed document`);
+  }
+
+  print(healthy ? 'Index is consistent with the crawl manifest' : 'Index is inconsistent with the crawl manifest');
+  return healthy ? 0 : 1;
+}
+
+const COMMANDS = new Map<string, (operands: string[]) => Promise<number>>([
+  ['crawl', crawl],
+  ['reindex', reindex],
+  ['purge', purge],
+  ['list', list],
+  ['stats', stats],
+  ['verify', verify],
+]);
+
+async function main(): Promise<number> {
+  const [name = 'crawl', ...operands] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+
+  if (hasFlag('help')) {
+    print(USAGE);
+    return 0;
+  }
+
+  const command = COMMANDS.get(name);
+  if (!command) {
+    process.stderr.write(`Unknown command: ${name}\n\n${USAGE}`);
+    return 1;
+  }
+
+  // Keep JSON output parseable
+  if (hasFlag('json')) {
+    logger.level = 'error';
+  }
+
+  try {
+    return await command(operands);
   } catch (error) {
-    logger.error('Crawl failed', { error , stack: error instanceof Error ? error.stack : 'No stack trace available' });
-    process.exit(1);
+    logger.error(name === 'crawl' ? 'Crawl failed' : `${name} failed`, {
+      error,
+      stack: error instanceof Error ? error.stack : 'No stack trace available',
+    });
+    return 1;
   }
 }
 
-// Run the crawler
-main().catch((error) => {
-  logger.error('Unexpected error', { error , stack: error instanceof Error ? error.stack : 'No stack trace available' });
-  process.exit(1);
-});
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    logger.error('Unexpected error', { error , stack: error instanceof Error ? error.stack : 'No stack trace available' });
+    process.exit(1);
+  });
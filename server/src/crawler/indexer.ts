@@ -1,139 +1,212 @@
 import { Pinecone } from '@pinecone-database/pinecone';
-import { PineconeStore } from '../shared/langchain-pinecone-adapter';
+import { PineconeStore, chunkVectorId } from '../shared/langchain-pinecone-adapter';
 import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { Document } from '@langchain/core/documents';
-import { ProcessedDocument, DocumentChunk, ChunkMetadata } from '../shared/types';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { ProcessedDocument, DocumentChunk, ChunkMetadata, ColumnValue } from '../shared/types';
+import { Chunker, ChunkingStrategy, RecursiveChunker, StructureChunker, chunkingStrategyFor } from './chunking';
 import { config } from '../shared/config';
 import { createSbertEmbeddings } from '../shared/embeddings';
 import { logger } from '../shared/logger';
 
 export class Indexer {
-  private embeddings: any;
-  private textSplitter: RecursiveCharacterTextSplitter;
+  private embeddings: EmbeddingsInterface;
+  private chunkers: Record<ChunkingStrategy, Chunker>;
+  private vectorStore: PineconeStore;
 
   constructor() {
     this.embeddings = createSbertEmbeddings();
 
-    this.textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: config.pinecone.chunkSize,
-      chunkOverlap: config.pinecone.chunkOverlap,
+    const pinecone = new Pinecone({ apiKey: config.pinecone.apiKey });
+    this.vectorStore = new PineconeStore({
+      pineconeIndex: pinecone.Index(config.pinecone.indexName),
+      embeddings: this.embeddings,
+      textKey: 'pageContent',
     });
-  }
-
-  async createIndex(documents: ProcessedDocument[]): Promise<any> {
-    try {
-      logger.info(`Creating Pinecone index for ${documents.length} documents`);
 
-      const allChunks: Document[] = [];
+    const recursive = new RecursiveChunker(
+      new RecursiveCharacterTextSplitter({
+        chunkSize: config.pinecone.chunkSize,
+        chunkOverlap: config.pinecone.chunkOverlap,
+      })
+    );
+    this.chunkers = { recursive, structure: new StructureChunker(recursive) };
+  }
 
-      for (const doc of documents) {
-        const chunks = await this.chunkDocument(doc);
-        doc.chunks = chunks;
+  getVectorStore(): PineconeStore {
+    return this.vectorStore;
+  }
 
-        for (const chunk of chunks) {
-          allChunks.push(
-            new Document({
-              pageContent: chunk.content,
-              metadata: chunk.metadata,
-            })
-          );
-        }
+  /**
+   * Embeds and upserts the chunks of a single document. Vector ids are stable
+   * per chunk index, so re-indexing a document overwrites its previous vectors;
+   * any trailing chunks from a longer previous version are deleted.
+   */
+  async upsertDocument(doc: ProcessedDocument, previousChunkCount = 0): Promise<number> {
+    try {
+      const chunks = await this.chunkDocument(doc);
+      doc.chunks = chunks;
+
+      const langchainDocs = chunks.map(
+        (chunk) =>
+          new Document({
+            pageContent: chunk.content,
+            metadata: chunk.metadata,
+          })
+      );
+
+      // The heading path is embedded with the chunk so sections are found by their context
+      await this.vectorStore.addDocuments(
+        langchainDocs,
+        chunks.map((chunk) =>
+          chunk.metadata.headingPath ? `${chunk.metadata.headingPath}\n\n${chunk.content}` : chunk.content
+        )
+      );
+
+      if (previousChunkCount > chunks.length) {
+        await this.vectorStore.deleteByIds(
+          this.chunkIds(doc.metadata.id, previousChunkCount, chunks.length)
+        );
       }
 
-      logger.info(`Created ${allChunks.length} chunks from ${documents.length} documents`);
-
-      // Initialise Pinecone client and index
-      const pinecone = new Pinecone({
-        apiKey: config.pinecone.apiKey,        
-     //   environment: config.pinecone.environment,        
+      logger.debug(`Upserted ${chunks.length} chunks for ${doc.metadata.filename}`);
+      return chunks.length;
+    } catch (error) {
+      logger.error(`Failed to index document: ${doc.metadata.filename}`, { error });
+      throw error;
+    }
+  }
 
-      });
-      // const pinecone = new PineconeClient();
-      // await pinecone.init({ apiKey: config.pinecone.apiKey, environment: config.pinecone.environment });
-      const index = pinecone.Index(config.pinecone.indexName);
-
-      // Full re-index: delete all existing vectors in the index
-      try {
-        // Use the generated API method name `_delete` (TypeScript types expose `_delete`)
-        if (typeof (index as any)._delete === 'function') {
-          await (index as any)._delete({ deleteAll: true, namespace: '' });
-        } else if (typeof (index as any).delete === 'function') {
-          await (index as any).delete({ deleteAll: true, namespace: '' });
-        }
-      } catch (err) {
-        logger.warn('Failed to clear Pinecone index before reindex', { err });
-      }
+  async deleteDocument(documentId: string, chunkCount: number): Promise<void> {
+    try {
+      await this.vectorStore.deleteByIds(this.chunkIds(documentId, chunkCount));
+      logger.debug(`Deleted ${chunkCount} chunks for document ${documentId}`);
+    } catch (error) {
+      logger.error(`Failed to delete document from index: ${documentId}`, { error });
+      throw error;
+    }
+  }
 
-      // Insert new chunks via LangChain PineconeStore
-      const vectorStore = await PineconeStore.fromDocuments(allChunks, this.embeddings as any, {
-        pineconeIndex: index,
-        textKey: 'pageContent',
-      } as any);
+  /** Deletes vectors by id, e.g. the orphans found by IndexInspector */
+  async deleteVectors(ids: string[]): Promise<void> {
+    try {
+      await this.vectorStore.deleteByIds(ids);
+    } catch (error) {
+      logger.error(`Failed to delete ${ids.length} vectors from index`, { error });
+      throw error;
+    }
+  }
 
-      logger.info('Pinecone index created successfully');
-      return vectorStore;
+  /**
+   * Patches metadata on every chunk of a document without re-embedding it.
+   */
+  async updateDocumentMetadata(
+    documentId: string,
+    chunkCount: number,
+    metadata: Partial<ChunkMetadata> | Record<string, ColumnValue>
+  ): Promise<void> {
+    try {
+      await this.vectorStore.updateMetadata(this.chunkIds(documentId, chunkCount), metadata);
     } catch (error) {
-      logger.error('Failed to create Pinecone index', error);
+      logger.error(`Failed to update document metadata in index: ${documentId}`, { error });
       throw error;
     }
   }
 
+  private chunkIds(documentId: string, chunkCount: number, from = 0): string[] {
+    const ids: string[] = [];
+    for (let i = from; i < chunkCount; i++) {
+      ids.push(chunkVectorId(documentId, i));
+    }
+    return ids;
+  }
+
+  /** Number of the page containing a content offset */
+  private pageAt(pageOffsets: number[], offset: number): number {
+    let page = 1;
+    while (page < pageOffsets.length && pageOffsets[page] <= offset) {
+      page++;
+    }
+    return page;
+  }
+
   private async chunkDocument(doc: ProcessedDocument): Promise<DocumentChunk[]> {
     try {
-      const textChunks = await this.textSplitter.splitText(doc.content);
+      const strategy = chunkingStrategyFor(doc.metadata.contentType);
+      const textChunks = await this.chunkers[strategy].split(doc.content);
       const totalChunks = textChunks.length;
 
-      const chunks: DocumentChunk[] = textChunks.map((content: string, index: number) => {
+      const chunks: DocumentChunk[] = textChunks.map(({ content, start, end, headingPath, table }, index: number) => {
+        // Columns go first so they can never shadow the core keys
         const metadata: ChunkMetadata = {
+          ...doc.metadata.columns,
           documentId: doc.metadata.id,
+          sourceId: doc.metadata.sourceId,
+          site: doc.metadata.site,
+          library: doc.metadata.library,
           filename: doc.metadata.filename,
           url: doc.metadata.url,
           chunkIndex: index,
           totalChunks,
         };
 
+        if (doc.metadata.title) {
+          metadata.title = doc.metadata.title;
+        }
+
+        if (doc.metadata.author) {
+          metadata.author = doc.metadata.author;
+        }
+
+        if (headingPath) {
+          metadata.headingPath = headingPath.join(' > ');
+        }
+
+        if (table) {
+          metadata.table = true;
+        }
+
+        if (doc.metadata.version) {
+          metadata.version = doc.metadata.version;
+        }
+
+        if (doc.metadata.principals) {
+          metadata.principals = doc.metadata.principals;
+        }
+
+        if (doc.metadata.alternateUrls?.length) {
+          metadata.alternateUrls = doc.metadata.alternateUrls;
+        }
+
+        if (doc.pageOffsets) {
+          const pageStart = this.pageAt(doc.pageOffsets, start);
+          const pageEnd = this.pageAt(doc.pageOffsets, end - 1);
+
+          // A single image or one-page document needs no page citation
+          if (doc.pageOffsets.length > 1) {
+            metadata.pageStart = pageStart;
+            metadata.pageEnd = pageEnd;
+          }
+
+          const confidences = (doc.ocrConfidence ?? [])
+            .slice(pageStart - 1, pageEnd)
+            .filter((confidence): confidence is number => confidence !== undefined);
+          if (confidences.length > 0) {
+            metadata.ocrConfidence = Math.min(...confidences);
+          }
+        }
+
         return {
           content,
           metadata,
         };
       });
 
-      logger.debug(`Split ${doc.metadata.filename} into ${chunks.length} chunks`);
+      logger.debug(`Split ${doc.metadata.filename} into ${chunks.length} chunks (${strategy})`);
       return chunks;
     } catch (error) {
       logger.error(`Failed to chunk document: ${doc.metadata.filename}`, { error });
       throw error;
     }
   }
-
-  async addDocuments(
-    vectorStore: any,
-    documents: ProcessedDocument[]
-  ): Promise<void> {
-    try {
-      logger.info(`Adding ${documents.length} documents to existing index`);
-
-      const allChunks: Document[] = [];
-
-      for (const doc of documents) {
-        const chunks = await this.chunkDocument(doc);
-        doc.chunks = chunks;
-
-        for (const chunk of chunks) {
-          allChunks.push(
-            new Document({
-              pageContent: chunk.content,
-              metadata: chunk.metadata,
-            })
-          );
-        }
-      }
-
-      await vectorStore.addDocuments(allChunks);
-      logger.info(`Added ${allChunks.length} chunks to index`);
-    } catch (error) {
-      logger.error('Failed to add documents to index', { error });
-      throw error;
-    }
-  }
 }
@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ManifestEntry } from '../shared/types';
+import { computeFingerprint } from './fingerprint';
+import { CrawlManifest } from './manifest';
+
+jest.mock('../shared/config', () => ({ config: { crawler: { stateDir: 'data' }, dedup: { enabled: false } } }));
+jest.mock('../shared/logger', () => ({ logger: { info: jest.fn(), error: jest.fn() } }));
+
+function entry(id: string, chunkCount = 2): ManifestEntry {
+  return {
+    id,
+    sourceId: 'hr',
+    filename: `${id}.docx`,
+    url: `https://contoso.sharepoint.com/sites/hr/Documents/${id}.docx`,
+    path: `/sites/hr/Documents/${id}.docx`,
+    modified: '2024-06-03T10:00:00.000Z',
+    size: 1000,
+    contentHash: 'hash',
+    chunkCount,
+    indexedAt: '2024-06-03T10:05:00.000Z',
+  };
+}
+
+/** Fingerprint of a text of distinct words, different for each seed */
+function fingerprint(seed: number): string {
+  return computeFingerprint(Array.from({ length: 100 }, (_, i) => `w${seed}x${i}`).join(' '))!;
+}
+
+describe('CrawlManifest', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'manifest-'));
+    filePath = path.join(dir, 'manifest.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps documents and change tokens across a save and load', async () => {
+    const manifest = new CrawlManifest(filePath);
+    await manifest.load();
+    manifest.set(entry('a'));
+    manifest.set(entry('b', 3));
+    manifest.setChangeToken('hr', 'token-1');
+    await manifest.save();
+
+    const loaded = new CrawlManifest(filePath);
+    await loaded.load();
+
+    expect(loaded.size).toBe(2);
+    expect(loaded.totalChunks).toBe(5);
+    expect(loaded.get('b')).toEqual(entry('b', 3));
+    expect(loaded.getChangeToken('hr')).toBe('token-1');
+  });
+
+  it('asks for a sweep of the index when there was no manifest', async () => {
+    const manifest = new CrawlManifest(filePath);
+    await manifest.load();
+
+    expect(manifest.sweepPending).toBe(true);
+  });
+
+  it('keeps asking for a sweep until one is done', async () => {
+    const manifest = new CrawlManifest(filePath);
+    await manifest.load();
+    await manifest.save();
+
+    const reloaded = new CrawlManifest(filePath);
+    await reloaded.load();
+    expect(reloaded.sweepPending).toBe(true);
+
+    reloaded.markSwept();
+    await reloaded.save();
+
+    const swept = new CrawlManifest(filePath);
+    await swept.load();
+    expect(swept.sweepPending).toBe(false);
+  });
+
+  it('asks for a sweep of an index taken over by a version 1 manifest', async () => {
+    await fs.writeFile(filePath, JSON.stringify({ version: 1, updatedAt: '', documents: { a: entry('a') } }));
+    const manifest = new CrawlManifest(filePath);
+    await manifest.load();
+
+    expect(manifest.sweepPending).toBe(true);
+    expect(manifest.get('a')).toEqual(entry('a'));
+  });
+
+  it('finds canonical documents similar to a fingerprint', async () => {
+    const manifest = new CrawlManifest(filePath);
+    await manifest.load();
+    manifest.set({ ...entry('policy'), fingerprint: fingerprint(1) });
+    manifest.set({ ...entry('copy', 0), fingerprint: fingerprint(1), canonicalId: 'policy' });
+    manifest.set({ ...entry('other'), fingerprint: fingerprint(2) });
+
+    expect(manifest.canonicalCandidates(fingerprint(1)).map((candidate) => candidate.id)).toEqual(['policy']);
+  });
+
+  it('finds canonical documents after a reload and not after they are deleted', async () => {
+    const manifest = new CrawlManifest(filePath);
+    await manifest.load();
+    manifest.set({ ...entry('policy'), fingerprint: fingerprint(1) });
+    manifest.set({ ...entry('handbook'), fingerprint: fingerprint(2) });
+    await manifest.save();
+
+    const loaded = new CrawlManifest(filePath);
+    await loaded.load();
+    loaded.delete('handbook');
+
+    expect(loaded.canonicalCandidates(fingerprint(1)).map((candidate) => candidate.id)).toEqual(['policy']);
+    expect(loaded.canonicalCandidates(fingerprint(2))).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { config } from '../shared/config';
+import { logger } from '../shared/logger';
+import { readJsonFile, writeJsonFile } from '../shared/json-file';
+import { DeletedDocument, DocumentMetadata, DuplicateCluster, DuplicateDocument, ManifestEntry } from '../shared/types';
+import { FingerprintIndex, similarity } from './fingerprint';
+
+interface ManifestFile {
+  version: number;
+  updatedAt: string;
+  changeTokens?: Record<string, string>;
+  /** The index may hold vectors the manifest does not know about (see sweepPending) */
+  sweepPending?: boolean;
+  documents: Record<string, ManifestEntry>;
+}
+
+// Version 1 manifests were written without sweeping the index they took over
+const MANIFEST_VERSION = 2;
+
+/**
+ * Persistent record of every document that has vectors in the index.
+ * Lets the crawler skip unchanged files and find documents that were removed
+ * from the library since the previous run.
+ */
+export class CrawlManifest {
+  private filePath: string;
+  private documents = new Map<string, ManifestEntry>();
+  private changeTokens: Record<string, string> = {};
+  private sweep = false;
+  private fingerprints = new FingerprintIndex();
+
+  constructor(filePath: string = path.join(config.crawler.stateDir, 'manifest.json')) {
+    this.filePath = filePath;
+  }
+
+  static hashContent(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+
+  async load(): Promise<void> {
+    try {
+      const data = await readJsonFile<ManifestFile>(this.filePath);
+      if (!data) {
+        logger.info('No crawl manifest found; all documents will be indexed', { path: this.filePath });
+        this.documents = new Map();
+        this.changeTokens = {};
+        this.sweep = true;
+        this.fingerprints = new FingerprintIndex();
+        return;
+      }
+
+      this.documents = new Map(Object.entries(data.documents ?? {}));
+      this.fingerprints = new FingerprintIndex();
+      for (const entry of this.documents.values()) {
+        if (entry.fingerprint) this.fingerprints.add(entry.id, entry.fingerprint);
+      }
+      this.changeTokens = data.changeTokens ?? {};
+      this.sweep = data.sweepPending ?? data.version < MANIFEST_VERSION;
+      logger.info(`Loaded crawl manifest with ${this.documents.size} documents`, { path: this.filePath });
+    } catch (error) {
+      logger.error('Failed to load crawl manifest', { error, path: this.filePath });
+      throw error;
+    }
+  }
+
+  async save(): Promise<void> {
+    const data: ManifestFile = {
+      version: MANIFEST_VERSION,
+      updatedAt: new Date().toISOString(),
+      changeTokens: this.changeTokens,
+      sweepPending: this.sweep || undefined,
+      documents: Object.fromEntries(this.documents),
+    };
+
+    await writeJsonFile(this.filePath, data);
+  }
+
+  /**
+   * True until a crawl of all sources has deleted the vectors the manifest
+   * does not know about. Set when there was no manifest: the index may have
+   * been built before it existed (or its manifest was lost) and hold vectors
+   * of documents deleted since, or trailing chunks of documents that got shorter.
+   */
+  get sweepPending(): boolean {
+    return this.sweep;
+  }
+
+  markSwept(): void {
+    this.sweep = false;
+  }
+
+  get(id: string): ManifestEntry | undefined {
+    return this.documents.get(id);
+  }
+
+  set(entry: ManifestEntry): void {
+    this.documents.set(entry.id, entry);
+    if (entry.fingerprint) {
+      this.fingerprints.add(entry.id, entry.fingerprint);
+    } else {
+      this.fingerprints.remove(entry.id);
+    }
+  }
+
+  delete(id: string): void {
+    this.documents.delete(id);
+    this.fingerprints.remove(id);
+  }
+
+  /**
+   * Resolves a change-log delete to an indexed document. Deletes carry the
+   * item's UniqueId, but fall back to the list item id when it is missing.
+   */
+  find(ref: DeletedDocument): ManifestEntry | undefined {
+    if (ref.id && this.documents.has(ref.id)) {
+      return this.documents.get(ref.id);
+    }
+    if (ref.itemId !== undefined) {
+      return this.entries().find((entry) => entry.itemId === ref.itemId);
+    }
+    return undefined;
+  }
+
+  /** Indexed document with this URL; SharePoint URLs are compared case-insensitively */
+  findByUrl(url: string): ManifestEntry | undefined {
+    const target = normalizeUrl(url);
+    return this.entries().find((entry) => normalizeUrl(entry.url) === target);
+  }
+
+  getChangeToken(key: string): string | undefined {
+    return this.changeTokens[key];
+  }
+
+  setChangeToken(key: string, token: string): void {
+    this.changeTokens[key] = token;
+  }
+
+  entries(): ManifestEntry[] {
+    return Array.from(this.documents.values());
+  }
+
+  /** Indexed documents other documents can be grouped under as near-duplicates */
+  canonicalEntries(): ManifestEntry[] {
+    return this.entries().filter(isCanonical);
+  }
+
+  /**
+   * Canonical documents that may be similar to a fingerprint, found through
+   * its bands (see FingerprintIndex) instead of comparing it to every document
+   */
+  canonicalCandidates(fingerprint: string): ManifestEntry[] {
+    return Array.from(this.fingerprints.candidates(fingerprint), (id) => this.documents.get(id)!).filter(isCanonical);
+  }
+
+  /** Near-duplicates grouped under a document */
+  duplicatesOf(id: string): ManifestEntry[] {
+    return this.entries().filter((entry) => entry.canonicalId === id);
+  }
+
+  /** Groups of near-duplicates, largest first */
+  duplicateClusters(): DuplicateCluster[] {
+    const summary = ({ id, sourceId, filename, url, modified }: ManifestEntry): DuplicateDocument =>
+      ({ id, sourceId, filename, url, modified });
+
+    const clusters: DuplicateCluster[] = [];
+    for (const canonical of this.canonicalEntries()) {
+      const duplicates = this.duplicatesOf(canonical.id);
+      if (duplicates.length === 0) continue;
+      clusters.push({
+        canonical: summary(canonical),
+        duplicates: duplicates.map((entry) => ({
+          ...summary(entry),
+          similarity: Math.round(similarity(canonical.fingerprint!, entry.fingerprint!) * 100) / 100,
+        })),
+      });
+    }
+    return clusters.sort((a, b) => b.duplicates.length - a.duplicates.length || a.canonical.url.localeCompare(b.canonical.url));
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get totalChunks(): number {
+    return this.entries().reduce((sum, entry) => sum + entry.chunkCount, 0);
+  }
+
+  /**
+   * True when the listing metadata matches what was indexed last time, so the
+   * document does not even need to be downloaded.
+   */
+  isUnchanged(doc: DocumentMetadata): boolean {
+    const entry = this.documents.get(doc.id);
+    return !!entry
+      && entry.path === doc.path
+      && entry.size === doc.size
+      && entry.modified === doc.modified.toISOString()
+      && !this.dedupChanged(entry);
+  }
+
+  /**
+   * DEDUP_ENABLED was switched since the document was indexed: near-duplicates
+   * need vectors of their own, or documents a fingerprint.
+   */
+  dedupChanged(entry: ManifestEntry): boolean {
+    return !!entry.deduplicated !== config.dedup.enabled;
+  }
+}
+
+function isCanonical(entry: ManifestEntry): boolean {
+  return !!entry.fingerprint && !entry.canonicalId && entry.chunkCount > 0;
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    return decodeURI(url).toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
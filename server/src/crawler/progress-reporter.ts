@@ -0,0 +1,110 @@
+import { CrawlFileStatus, CrawlEvent, CrawlProgress, formatCrawlEvent } from '../shared/crawl-events';
+import { CrawlTotals } from './checkpoint';
+
+// Progress snapshots are rate limited; a library of unchanged documents can
+// get through hundreds of them per second
+const PROGRESS_INTERVAL_MS = 500;
+
+/**
+ * Writes crawl progress events to stdout for the API to relay to the admin
+ * UI (see shared/crawl-events.ts). Disabled unless the crawler was started
+ * with --progress, so CLI runs only print their logs.
+ */
+export class CrawlProgressReporter {
+  private runId = '';
+  private documentsDiscovered = 0;
+  private chunksEmbedded = 0;
+  private currentFile?: string;
+  private lastReportAt = 0;
+  private enabled: boolean;
+  private getTotals: () => CrawlTotals;
+
+  // ETA is based on the throughput of this process only, not of the run it may be resuming
+  private sessionStart = Date.now();
+  private handledAtStart = 0;
+
+  constructor(enabled: boolean, getTotals: () => CrawlTotals) {
+    this.enabled = enabled;
+    this.getTotals = getTotals;
+  }
+
+  start(runId: string): void {
+    this.runId = runId;
+    this.sessionStart = Date.now();
+    this.handledAtStart = this.handledCount();
+    // Documents handled before an interruption count as discovered
+    this.documentsDiscovered = this.handledAtStart;
+    this.report(true);
+  }
+
+  discovered(count: number): void {
+    this.documentsDiscovered += count;
+    this.report(true);
+  }
+
+  fileStarted(filename: string): void {
+    this.currentFile = filename;
+    this.report();
+  }
+
+  fileFinished(
+    filename: string,
+    status: CrawlFileStatus,
+    details: { chunks?: number; boilerplateRemoved?: number; duplicateOf?: string; error?: string } = {}
+  ): void {
+    if (details.chunks) {
+      this.chunksEmbedded += details.chunks;
+    }
+
+    // Unchanged documents are only counted; listing each one would drown the log
+    if (status !== 'unchanged') {
+      this.emit({ type: 'file', filename, status, ...details, timestamp: new Date().toISOString() });
+    }
+    this.report();
+  }
+
+  finish(): void {
+    this.currentFile = undefined;
+    this.report(true);
+  }
+
+  private report(force = false): void {
+    const now = Date.now();
+    if (!force && now - this.lastReportAt < PROGRESS_INTERVAL_MS) return;
+    this.lastReportAt = now;
+
+    const totals = this.getTotals();
+    const progress: CrawlProgress = {
+      runId: this.runId,
+      documentsDiscovered: this.documentsDiscovered,
+      documentsProcessed: totals.documentsProcessed,
+      documentsUnchanged: totals.documentsUnchanged,
+      documentsSkipped: totals.documentsSkipped,
+      documentsDeleted: totals.documentsDeleted,
+      chunksEmbedded: this.chunksEmbedded,
+      currentFile: this.currentFile,
+      etaMs: this.estimateRemaining(now),
+    };
+
+    this.emit({ type: 'progress', progress });
+  }
+
+  private estimateRemaining(now: number): number | undefined {
+    const handled = this.handledCount();
+    const handledThisSession = handled - this.handledAtStart;
+    if (handledThisSession <= 0) return undefined;
+
+    const remaining = Math.max(0, this.documentsDiscovered - handled);
+    return Math.round(((now - this.sessionStart) / handledThisSession) * remaining);
+  }
+
+  private handledCount(): number {
+    const totals = this.getTotals();
+    return totals.documentsProcessed + totals.documentsUnchanged + totals.documentsSkipped;
+  }
+
+  private emit(event: CrawlEvent): void {
+    if (!this.enabled) return;
+    process.stdout.write(`${formatCrawlEvent(event)}\n`);
+  }
+}
@@ -1,19 +1,127 @@
 import { config as dotenvConfig } from 'dotenv';
+import { readFileSync } from 'fs';
+import { parseExpression } from 'cron-parser';
 import { z } from 'zod';
 //import path from 'path';
 
 dotenvConfig();
 
+const cronExpression = z.string().refine((expression) => {
+  try {
+    parseExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'must be a valid cron expression');
+
+// Cron expressions for scheduled crawls, e.g. { "incremental": "*/30 * * * *", "full": "0 2 * * 0" }
+const crawlScheduleSchema = z.object({
+  incremental: cronExpression.optional(),
+  full: cronExpression.optional(),
+});
+
+const sourceFilterFields = {
+  id: z.string().min(1, 'source id is required'),
+  // Filename glob patterns, e.g. ["*.pdf", "Policy*"]
+  include: z.array(z.string()).default([]),
+  exclude: z.array(z.string()).default([]),
+  // Descend into subfolders
+  recursive: z.boolean().default(true),
+  // Overrides the SCHEDULER_* defaults for this source
+  schedule: crawlScheduleSchema.optional(),
+};
+
+/** Chunk metadata keys written by the indexer; column names must not collide with them */
+export const RESERVED_METADATA_KEYS = [
+  'documentId',
+  'sourceId',
+  'site',
+  'library',
+  'filename',
+  'url',
+  'title',
+  'author',
+  'version',
+  'pageStart',
+  'pageEnd',
+  'headingPath',
+  'table',
+  'ocrConfidence',
+  'alternateUrls',
+  'chunkIndex',
+  'totalChunks',
+  'principals',
+  'pageContent',
+  'score',
+];
+
+// A list column copied onto every chunk of a document. A plain string is
+// shorthand for a text column, e.g. "Department".
+const columnSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? { field: value } : value),
+  z
+    .object({
+      // Internal name of the SharePoint column, e.g. "Author" or "Department_x0020_Name"
+      field: z.string().min(1, 'column field is required'),
+      // Metadata key on chunks and in query filters (default: field)
+      name: z
+        .string()
+        .regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'column name may only contain letters, digits and underscores')
+        .optional(),
+      // text: display value (people, lookups, managed metadata, choices)
+      // multi: list of display values (multi-choice, multi-value taxonomy)
+      // date: stored as epoch milliseconds so it can be range filtered
+      type: z.enum(['text', 'multi', 'number', 'date', 'boolean']).default('text'),
+    })
+    .transform((column) => ({ ...column, name: column.name ?? column.field }))
+);
+
+const sharepointSourceSchema = z.object({
+  type: z.literal('sharepoint'),
+  ...sourceFilterFields,
+  siteUrl: z.string().url('siteUrl must be a valid URL'),
+  libraryName: z.string().min(1, 'libraryName is required'),
+  // Folder path relative to the library root, e.g. "Policies/HR"
+  folder: z.string().optional(),
+  // Index the latest published major version of each file instead of drafts
+  publishedOnly: z.boolean().default(false),
+  columns: z.array(columnSchema).default([]),
+});
+
+const fileSystemSourceSchema = z.object({
+  type: z.literal('filesystem'),
+  ...sourceFilterFields,
+  rootPath: z.string().min(1, 'rootPath is required'),
+  // Public URL the folder is served from; file:// URLs are used when omitted
+  baseUrl: z.string().url('baseUrl must be a valid URL').optional(),
+});
+
+// Sources without a type are SharePoint libraries
+const sourceSchema = z.preprocess(
+  (value) =>
+    value && typeof value === 'object' && !('type' in value) ? { ...value, type: 'sharepoint' } : value,
+  z.discriminatedUnion('type', [sharepointSourceSchema, fileSystemSourceSchema])
+);
+
+export type SharePointSourceConfig = z.infer<typeof sharepointSourceSchema>;
+export type FileSystemSourceConfig = z.infer<typeof fileSystemSourceSchema>;
+export type SourceConfig = SharePointSourceConfig | FileSystemSourceConfig;
+export type CrawlScheduleConfig = z.infer<typeof crawlScheduleSchema>;
+export type ColumnConfig = z.infer<typeof columnSchema>;
+
 const configSchema = z.object({
+  // Only required when a SharePoint source is configured (checked below)
   azure: z.object({
-    tenantId: z.string().min(1, 'AZURE_TENANT_ID is required'),
-    clientId: z.string().min(1, 'AZURE_CLIENT_ID is required'),
-    certificatePath: z.string().min(1, 'AZURE_CERTIFICATE_PATH is required'),
-    thumbprint: z.string().min(1, 'AZURE_THUMBPRINT is required'),
+    tenantId: z.string().optional(),
+    clientId: z.string().optional(),
+    certificatePath: z.string().optional(),
+    thumbprint: z.string().optional(),
   }),
   sharepoint: z.object({
-    siteUrl: z.string().url('SHAREPOINT_SITE_URL must be a valid URL'),
-    libraryName: z.string().min(1, 'SHAREPOINT_LIBRARY_NAME is required'),
+    // Items per request when enumerating a library; must stay under the
+    // 5000-item list view threshold
+    pageSize: z.coerce.number().int().positive().max(5000).default(2000),
   }),
   openai: z.object({
     apiKey: z.string().min(1, 'AZURE_OPENAI_API_KEY is required'),
@@ -32,6 +140,112 @@ const configSchema = z.object({
     indexName: z.string().min(1, 'PINECONE_INDEX_NAME is required'),
     chunkSize: z.coerce.number().int().positive().default(1000),
     chunkOverlap: z.coerce.number().int().nonnegative().default(200),
+    // Chunking per content type or file extension, e.g. "pdf=recursive,text/html=structure"
+    chunkStrategies: z
+      .string()
+      .default('')
+      .transform((value) =>
+        Object.fromEntries(
+          value
+            .split(',')
+            .filter((entry) => entry.trim())
+            .map((entry) => entry.split('=').map((part) => part.trim().toLowerCase()))
+        )
+      )
+      .pipe(z.record(z.enum(['structure', 'recursive'], {
+        errorMap: () => ({ message: 'CHUNK_STRATEGIES entries must be <type>=structure or <type>=recursive' }),
+      }))),
+  }),
+  crawler: z.object({
+    sources: z
+      .array(sourceSchema)
+      .min(1, 'configure CRAWLER_SOURCES or SHAREPOINT_SITE_URL and SHAREPOINT_LIBRARY_NAME')
+      .refine(
+        (sources) => new Set(sources.map((s) => s.id)).size === sources.length,
+        'source ids must be unique'
+      )
+      .superRefine((sources, ctx) => {
+        // Columns are filtered by name across all sources, so a name must mean the same type everywhere
+        const types = new Map<string, string>();
+        sources.forEach((source, index) => {
+          if (source.type !== 'sharepoint') return;
+          for (const column of source.columns) {
+            if (RESERVED_METADATA_KEYS.includes(column.name)) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: [index, 'columns'],
+                message: `column name "${column.name}" is reserved; set a different "name"`,
+              });
+            }
+            const existing = types.get(column.name);
+            if (existing && existing !== column.type) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: [index, 'columns'],
+                message: `column "${column.name}" is configured as both ${existing} and ${column.type}`,
+              });
+            }
+            types.set(column.name, column.type);
+          }
+        });
+      }),
+    stateDir: z.string().default('data'),
+    // Documents downloaded, extracted and embedded in parallel
+    concurrency: z.coerce.number().int().positive().default(4),
+    // Retries for throttled (429/503) or failed SharePoint and Pinecone requests
+    maxRetries: z.coerce.number().int().nonnegative().default(5),
+    // Number of past runs kept in the run history
+    runHistoryLimit: z.coerce.number().int().positive().default(100),
+  }),
+  scheduler: z.object({
+    enabled: z.enum(['true', 'false']).default('true').transform((value) => value === 'true'),
+    // Crawl once when the API starts
+    runOnStartup: z.enum(['true', 'false']).default('true').transform((value) => value === 'true'),
+    // IANA time zone the cron expressions are evaluated in
+    timezone: z.string().default('UTC').refine((timeZone) => {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'SCHEDULER_TIMEZONE must be an IANA time zone, e.g. Europe/London'),
+    // Schedules for sources without their own `schedule`
+    incremental: cronExpression.optional(),
+    full: cronExpression.optional(),
+  }),
+  ocr: z.object({
+    // Recognise scanned PDF pages and image files with Tesseract; off by default
+    // because language data is downloaded from a CDN unless langPath is set
+    enabled: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+    // Tesseract language codes, e.g. "eng" or "eng+deu"
+    languages: z.string().regex(/^[a-z_]+(\+[a-z_]+)*$/i, 'OCR_LANGUAGES must look like "eng" or "eng+deu"').default('eng'),
+    // URL or folder with <lang>.traineddata(.gz) files, for servers without internet access
+    langPath: z.string().optional(),
+  }),
+  extraction: z.object({
+    // Worker threads extracting text; defaults to CRAWLER_CONCURRENCY
+    workers: z.coerce.number().int().positive().optional(),
+    // Per document, including OCR
+    timeoutSeconds: z.coerce.number().positive().default(60),
+    // JavaScript heap of each worker
+    maxMemoryMb: z.coerce.number().int().positive().default(512),
+    // Larger files are not downloaded
+    maxFileSizeMb: z.coerce.number().positive().default(100),
+    // For paged formats (PDF, TIFF)
+    maxPages: z.coerce.number().int().positive().default(500),
+    // Drop running headers and footers, page numbers and tables of contents before chunking
+    removeBoilerplate: z.enum(['true', 'false']).default('true').transform((value) => value === 'true'),
+  }),
+  dedup: z.object({
+    // Index near-duplicate documents once, listing the other copies as alternate URLs
+    enabled: z.enum(['true', 'false']).default('true').transform((value) => value === 'true'),
+    // Estimated share of shared word sequences (Jaccard similarity) above which documents are copies
+    threshold: z.coerce.number().gt(0).max(1).default(0.9),
+  }),
+  security: z.object({
+    // Store document permissions on chunks and filter query results by the caller's identity
+    trimming: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
   }),
   api: z.object({
     port: z.coerce.number().int().positive().default(3000),
@@ -40,8 +254,60 @@ const configSchema = z.object({
   logging: z.object({
     level: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   }),
+}).superRefine((value, ctx) => {
+  if (!value.crawler.sources.some((source) => source.type === 'sharepoint')) return;
+
+  const required: [keyof typeof value.azure, string][] = [
+    ['tenantId', 'AZURE_TENANT_ID'],
+    ['clientId', 'AZURE_CLIENT_ID'],
+    ['certificatePath', 'AZURE_CERTIFICATE_PATH'],
+    ['thumbprint', 'AZURE_THUMBPRINT'],
+  ];
+
+  for (const [key, envName] of required) {
+    if (!value.azure[key]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['azure', key],
+        message: `${envName} is required for SharePoint sources`,
+      });
+    }
+  }
 });
 
+/**
+ * Sources come from CRAWLER_SOURCES (JSON array) or CRAWLER_SOURCES_FILE
+ * (path to a JSON file); the older SHAREPOINT_SOURCES / SHAREPOINT_SOURCES_FILE
+ * names are still accepted. Without either, the single SHAREPOINT_SITE_URL /
+ * SHAREPOINT_LIBRARY_NAME pair is used as a source with id "default".
+ */
+function loadSources(): unknown {
+  const sourcesFile = process.env.CRAWLER_SOURCES_FILE ?? process.env.SHAREPOINT_SOURCES_FILE;
+  const json = sourcesFile
+    ? readFileSync(sourcesFile, 'utf-8')
+    : process.env.CRAWLER_SOURCES ?? process.env.SHAREPOINT_SOURCES;
+
+  if (json) {
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Configuration validation failed:\ncrawler.sources: invalid JSON (${(error as Error).message})`);
+    }
+  }
+
+  if (!process.env.SHAREPOINT_SITE_URL && !process.env.SHAREPOINT_LIBRARY_NAME) {
+    return [];
+  }
+
+  return [
+    {
+      id: 'default',
+      siteUrl: process.env.SHAREPOINT_SITE_URL,
+      libraryName: process.env.SHAREPOINT_LIBRARY_NAME,
+    },
+  ];
+}
+
 function loadConfig() {
   const rawConfig = {
     azure: {
@@ -51,8 +317,7 @@ function loadConfig() {
       thumbprint: process.env.AZURE_THUMBPRINT,
     },
     sharepoint: {
-      siteUrl: process.env.SHAREPOINT_SITE_URL,
-      libraryName: process.env.SHAREPOINT_LIBRARY_NAME,
+      pageSize: process.env.SHAREPOINT_PAGE_SIZE,
     },
     openai: {
       apiKey: process.env.AZURE_OPENAI_API_KEY,
@@ -72,6 +337,41 @@ function loadConfig() {
       indexName: process.env.PINECONE_INDEX_NAME,
       chunkSize: process.env.CHUNK_SIZE,
       chunkOverlap: process.env.CHUNK_OVERLAP,
+      chunkStrategies: process.env.CHUNK_STRATEGIES,
+    },
+    crawler: {
+      sources: loadSources(),
+      stateDir: process.env.CRAWLER_STATE_DIR,
+      concurrency: process.env.CRAWLER_CONCURRENCY,
+      maxRetries: process.env.CRAWLER_MAX_RETRIES,
+      runHistoryLimit: process.env.CRAWLER_RUN_HISTORY_LIMIT,
+    },
+    scheduler: {
+      enabled: process.env.SCHEDULER_ENABLED,
+      runOnStartup: process.env.SCHEDULER_RUN_ON_STARTUP,
+      timezone: process.env.SCHEDULER_TIMEZONE,
+      incremental: process.env.SCHEDULER_INCREMENTAL || undefined,
+      full: process.env.SCHEDULER_FULL || undefined,
+    },
+    ocr: {
+      enabled: process.env.OCR_ENABLED,
+      languages: process.env.OCR_LANGUAGES,
+      langPath: process.env.OCR_LANG_PATH || undefined,
+    },
+    extraction: {
+      workers: process.env.EXTRACTION_WORKERS || undefined,
+      timeoutSeconds: process.env.EXTRACTION_TIMEOUT_SECONDS,
+      maxMemoryMb: process.env.EXTRACTION_MAX_MEMORY_MB,
+      maxFileSizeMb: process.env.EXTRACTION_MAX_FILE_SIZE_MB,
+      maxPages: process.env.EXTRACTION_MAX_PAGES,
+      removeBoilerplate: process.env.EXTRACTION_REMOVE_BOILERPLATE,
+    },
+    dedup: {
+      enabled: process.env.DEDUP_ENABLED,
+      threshold: process.env.DEDUP_THRESHOLD,
+    },
+    security: {
+      trimming: process.env.SECURITY_TRIMMING,
     },
     api: {
       port: process.env.API_PORT,
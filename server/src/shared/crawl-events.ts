@@ -0,0 +1,56 @@
+/**
+ * Progress events sent from the crawler child process to the API.
+ * The crawler writes one event per stdout line, prefixed so the API can tell
+ * them apart from ordinary log output.
+ */
+export const CRAWL_EVENT_PREFIX = '@@crawl-event ';
+
+export interface CrawlProgress {
+  runId: string;
+  /** Documents listed or read from the change log so far, across all sources */
+  documentsDiscovered: number;
+  documentsProcessed: number;
+  documentsUnchanged: number;
+  documentsSkipped: number;
+  documentsDeleted: number;
+  chunksEmbedded: number;
+  currentFile?: string;
+  /** Estimated time to finish the documents discovered so far */
+  etaMs?: number;
+}
+
+export type CrawlFileStatus = 'processed' | 'unchanged' | 'failed' | 'deleted';
+
+export type CrawlEvent =
+  | { type: 'progress'; progress: CrawlProgress }
+  | {
+      type: 'file';
+      filename: string;
+      status: CrawlFileStatus;
+      chunks?: number;
+      /** Characters of boilerplate removed before chunking */
+      boilerplateRemoved?: number;
+      /** URL of the document a near-duplicate was grouped under instead of being indexed */
+      duplicateOf?: string;
+      error?: string;
+      timestamp: string;
+    };
+
+export function formatCrawlEvent(event: CrawlEvent): string {
+  return `${CRAWL_EVENT_PREFIX}${JSON.stringify(event)}`;
+}
+
+/**
+ * Returns the event carried by a line of crawler output, or null for
+ * ordinary log lines.
+ */
+export function parseCrawlEvent(line: string): CrawlEvent | null {
+  const start = line.indexOf(CRAWL_EVENT_PREFIX);
+  if (start === -1) return null;
+
+  try {
+    return JSON.parse(line.slice(start + CRAWL_EVENT_PREFIX.length)) as CrawlEvent;
+  } catch {
+    return null;
+  }
+}
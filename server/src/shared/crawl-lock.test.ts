@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CrawlLock } from './crawl-lock';
+
+jest.mock('./config', () => ({ config: { crawler: { stateDir: 'data' } } }));
+
+describe('CrawlLock', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'crawl-lock-'));
+    filePath = path.join(dir, 'crawl.lock');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeLock(pid: number, hostname = os.hostname(), updatedAt = new Date()): Promise<void> {
+    await fs.writeFile(filePath, JSON.stringify({ pid, hostname, updatedAt: updatedAt.toISOString() }));
+  }
+
+  it('is free without a lock file', async () => {
+    expect(await new CrawlLock(filePath).holder()).toBeNull();
+  });
+
+  it('is taken and released', async () => {
+    const lock = new CrawlLock(filePath);
+    await lock.acquire();
+
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toMatchObject({ pid: process.pid, hostname: os.hostname() });
+
+    await lock.release();
+    await expect(fs.access(filePath)).rejects.toThrow();
+  });
+
+  it('refuses a lock held by another live process', async () => {
+    // The parent of the test runner is alive for the whole test
+    await writeLock(process.ppid);
+
+    expect(await new CrawlLock(filePath).holder()).toMatchObject({ pid: process.ppid });
+    await expect(new CrawlLock(filePath).acquire()).rejects.toThrow(`Another crawl is running (pid ${process.ppid}`);
+  });
+
+  it('takes over the lock of a process that is gone', async () => {
+    // Beyond the default pid_max, so never a running process
+    await writeLock(4194305);
+    const lock = new CrawlLock(filePath);
+
+    expect(await lock.holder()).toBeNull();
+    await lock.acquire();
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).pid).toBe(process.pid);
+    await lock.release();
+  });
+
+  it('treats a lock from another host as held until it is no longer refreshed', async () => {
+    await writeLock(4194305, 'other-host');
+    expect(await new CrawlLock(filePath).holder()).toMatchObject({ hostname: 'other-host' });
+
+    await writeLock(4194305, 'other-host', new Date(Date.now() - 5 * 60000));
+    expect(await new CrawlLock(filePath).holder()).toBeNull();
+  });
+
+  it('ignores a lock file written halfway', async () => {
+    await fs.writeFile(filePath, '{"pid": 12');
+
+    expect(await new CrawlLock(filePath).holder()).toBeNull();
+  });
+});
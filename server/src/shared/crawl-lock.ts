@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from './config';
+import { deleteJsonFile, readJsonFile, writeJsonFile } from './json-file';
+
+export interface CrawlLockHolder {
+  pid: number;
+  hostname: string;
+  updatedAt: string;
+}
+
+// The holder rewrites the lock this often; a lock not rewritten for STALE_MS is left from a crawler that died
+const HEARTBEAT_MS = 30000;
+const STALE_MS = 120000;
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // The process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * `<stateDir>/crawl.lock` names the crawler process that is working on the
+ * manifest and checkpoint, so a second one is never started next to it: by
+ * an API restarted while its crawler kept running, or from the command line.
+ * A lock is stale once its process is gone (on the same host) or it has not
+ * been refreshed for two minutes (a crawler on another host sharing the
+ * state directory).
+ */
+export class CrawlLock {
+  private filePath: string;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = path.join(config.crawler.stateDir, 'crawl.lock')) {
+    this.filePath = filePath;
+  }
+
+  /** The crawler holding the lock, unless the lock is stale */
+  async holder(): Promise<CrawlLockHolder | null> {
+    let lock: CrawlLockHolder | null;
+    try {
+      lock = await readJsonFile<CrawlLockHolder>(this.filePath);
+    } catch {
+      // Written halfway by a crawler that died
+      return null;
+    }
+    if (!lock) return null;
+
+    if (Date.now() - new Date(lock.updatedAt).getTime() > STALE_MS) return null;
+    if (lock.hostname === os.hostname() && (lock.pid === process.pid || !isAlive(lock.pid))) return null;
+    return lock;
+  }
+
+  /**
+   * Takes the lock for this process and keeps it fresh until release().
+   * Throws when another crawler holds it.
+   */
+  async acquire(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    for (;;) {
+      try {
+        // Fails when the file exists, so two crawlers starting together cannot both take it
+        await fs.writeFile(this.filePath, JSON.stringify(this.lockData()), { flag: 'wx' });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const holder = await this.holder();
+      if (holder) {
+        throw new Error(`Another crawl is running (pid ${holder.pid} on ${holder.hostname})`);
+      }
+      await deleteJsonFile(this.filePath);
+    }
+
+    this.heartbeat = setInterval(() => {
+      this.pendingWrite = writeJsonFile(this.filePath, this.lockData()).catch(() => undefined);
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  async release(): Promise<void> {
+    if (!this.heartbeat) return;
+    clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    // A refresh still being written would bring the file back
+    await this.pendingWrite;
+    await deleteJsonFile(this.filePath);
+  }
+
+  private lockData(): CrawlLockHolder {
+    return { pid: process.pid, hostname: os.hostname(), updatedAt: new Date().toISOString() };
+  }
+}
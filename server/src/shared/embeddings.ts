@@ -1,4 +1,5 @@
 import { pipeline, FeatureExtractionPipeline } from '@xenova/transformers';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
 import { config } from './config';
 
 let _embedder: FeatureExtractionPipeline | null = null;
@@ -29,7 +30,7 @@ async function embedTexts(texts: string[]): Promise<number[][]> {
   return allVectors;
 }
 
-export function createSbertEmbeddings() {
+export function createSbertEmbeddings(): EmbeddingsInterface {
   return {
     embedDocuments: async (texts: string[]) => embedTexts(texts),
     embedQuery: async (text: string) => {
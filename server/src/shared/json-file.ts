@@ -0,0 +1,32 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Reads a JSON state file, returning null when it does not exist yet.
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes a JSON state file via a temp file and rename, so a crash mid-write
+ * never leaves a truncated file behind.
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
+
+export async function deleteJsonFile(filePath: string): Promise<void> {
+  await fs.rm(filePath, { force: true });
+}
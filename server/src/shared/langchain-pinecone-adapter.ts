@@ -1,16 +1,24 @@
 import { Pinecone, PineconeRecord,RecordMetadata } from '@pinecone-database/pinecone';
 import { Document } from '@langchain/core/documents';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
 import { config } from './config';
 import { logger } from './logger';
+import { withRetry } from './retry';
 
 type PineconeIndex = any;
 
+// Vector ids are derived from the document id so a document's chunks can be
+// replaced or deleted without querying the index first.
+export function chunkVectorId(documentId: string, chunkIndex: number): string {
+  return `${documentId}-${chunkIndex}`;
+}
+
 export class PineconeStore {
   private pineconeIndex: PineconeIndex;
-  private embeddings: any;
+  private embeddings: EmbeddingsInterface;
   private textKey: string;
 
-  constructor(opts: { pineconeIndex: PineconeIndex; embeddings: any; textKey?: string }) {
+  constructor(opts: { pineconeIndex: PineconeIndex; embeddings: EmbeddingsInterface; textKey?: string }) {
     this.pineconeIndex = opts.pineconeIndex;
     this.embeddings = opts.embeddings;
     this.textKey = opts.textKey ?? 'pageContent';
@@ -40,45 +48,83 @@ export class PineconeStore {
     return new PineconeStore({ pineconeIndex: index, embeddings, textKey: opts?.textKey });
   }
 
-  async addDocuments(docs: any[]): Promise<void> {
+  /**
+   * Embeds and upserts documents. `embeddingTexts`, when given, are embedded
+   * instead of the page contents (index-aligned with docs); the page content
+   * is still what gets stored.
+   */
+  async addDocuments(docs: any[], embeddingTexts?: string[]): Promise<void> {
     if (!docs || docs.length === 0) return;
 
     try {
-      // Extract texts and compute embeddings in batches
-      const texts: string[] = docs.map((d: any) => d.pageContent ?? d.text ?? '');
+      // Embed and upsert one batch at a time so memory stays bounded for large documents
+      const batchSize = 100;
+      for (let start = 0; start < docs.length; start += batchSize) {
+        const batchDocs = docs.slice(start, start + batchSize);
+        const texts: string[] = batchDocs.map((d: any) => d.pageContent ?? d.text ?? '');
+
+        const embeddings = await this.embeddings.embedDocuments(
+          embeddingTexts ? embeddingTexts.slice(start, start + batchSize) : texts
+        );
+
+        const records = embeddings.map((values: number[], i: number) => {
+          const meta = batchDocs[i].metadata ?? {};
+          const idPrefix = (meta && meta.documentId) ? chunkVectorId(meta.documentId, meta.chunkIndex ?? start + i) : `${Date.now()}-${start + i}`;
+          const metadata = { ...meta, [this.textKey]: texts[i] };
+
+          return {
+            id: idPrefix,
+            values,
+            metadata,
+          };
+        });
 
-      const embeddings = await this.embeddings.embedDocuments(texts);
+        await withRetry(
+          () => this.pineconeIndex.upsert({ records: records as PineconeRecord<RecordMetadata>[] }),
+          { label: `upsert ${records.length} vectors` }
+        );
+      }
+    } catch (err) {
+      logger.error('Failed to add documents to Pinecone index', { err });
+      throw err;
+    }
+  }
 
-      const records = embeddings.map((values: number[], i: number) => {
-        const meta = docs[i].metadata ?? {};
-        const idPrefix = (meta && meta.documentId) ? `${meta.documentId}-${meta.chunkIndex ?? i}` : `${Date.now()}-${i}`;
-        const metadata = { ...meta, [this.textKey]: texts[i] };
+  async deleteByIds(ids: string[]): Promise<void> {
+    if (!ids || ids.length === 0) return;
 
-        return {
-          id: idPrefix,
-          values,
-          metadata,
-        };
-      });
+    try {
+      const batchSize = 1000;
+      for (let i = 0; i < ids.length; i += batchSize) {
+        const batch = ids.slice(i, i + batchSize);
+        await withRetry(() => this.pineconeIndex.deleteMany({ ids: batch }), {
+          label: `delete ${batch.length} vectors`,
+        });
+      }
+    } catch (err) {
+      logger.error('Failed to delete vectors from Pinecone index', { err, count: ids.length });
+      throw err;
+    }
+  }
 
-      const batchSize = 100;
-      for (let i = 0; i < records.length; i += batchSize) {
-        const batch = records.slice(i, i + batchSize);
-        await this.pineconeIndex.upsert({ records: batch as PineconeRecord<RecordMetadata>[] });
+  async updateMetadata(ids: string[], metadata: RecordMetadata): Promise<void> {
+    try {
+      for (const id of ids) {
+        await withRetry(() => this.pineconeIndex.update({ id, metadata }), { label: `update vector ${id}` });
       }
     } catch (err) {
-      logger.error('Failed to add documents to Pinecone index', { err });
+      logger.error('Failed to update vector metadata in Pinecone index', { err, count: ids.length });
       throw err;
     }
   }
 
-  asRetriever(k = 4) {
+  asRetriever(k = 4, filter?: Record<string, any>) {
     const self = this;
 
     return {
       async getRelevantDocuments(query: string) {
         const qEmbedding = await self.embeddings.embedQuery(query);
-        const resp = await self.pineconeIndex.query({ vector: qEmbedding, topK: k, includeMetadata: true });
+        const resp = await self.pineconeIndex.query({ vector: qEmbedding, topK: k, includeMetadata: true, filter });
         const matches = resp?.matches ?? resp?.results ?? [];
 
         return (matches || []).map((m: any) => {
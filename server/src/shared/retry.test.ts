@@ -0,0 +1,125 @@
+import { logger } from './logger';
+import { isRetryableError, withRetry } from './retry';
+
+jest.mock('./config', () => ({ config: { crawler: { maxRetries: 3 } } }));
+jest.mock('./logger', () => ({ logger: { warn: jest.fn() } }));
+
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`Request failed with ${status}`), {
+    status,
+    response: { status, headers: new Headers(headers) },
+  });
+}
+
+/** Delays withRetry waited before each retry, read from its log messages */
+function delays(): number[] {
+  return (logger.warn as jest.Mock).mock.calls.map(([message]) => Number(/in (\d+)ms/.exec(message)![1]));
+}
+
+/** Runs withRetry to completion with fake timers */
+async function run<T>(operation: () => Promise<T>, options: Partial<Parameters<typeof withRetry>[1]> = {}): Promise<T> {
+  const result = withRetry(operation, { label: 'download Policy.pdf', ...options });
+  result.catch(() => undefined);
+  await jest.runAllTimersAsync();
+  return result;
+}
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-06-03T10:00:00Z') });
+    jest.clearAllMocks();
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('returns the result without retrying', async () => {
+    const operation = jest.fn().mockResolvedValue('ok');
+
+    expect(await run(operation)).toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries throttling and server errors with exponential backoff', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(httpError(429))
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(500))
+      .mockResolvedValue('ok');
+
+    expect(await run(operation)).toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(4);
+    // Half the backoff plus a random half: 1s, 2s and 4s at 0.5
+    expect(delays()).toEqual([750, 1500, 3000]);
+  });
+
+  it('caps the backoff at maxDelayMs', async () => {
+    const operation = jest.fn().mockRejectedValue(httpError(503));
+
+    await expect(run(operation, { retries: 5, baseDelayMs: 1000, maxDelayMs: 3000 })).rejects.toThrow('503');
+    expect(delays()).toEqual([750, 1500, 2250, 2250, 2250]);
+  });
+
+  it('keeps the jitter between half the backoff and the full backoff', async () => {
+    const operation = jest.fn().mockRejectedValue(httpError(503));
+
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    await expect(run(operation, { retries: 2 })).rejects.toThrow();
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    await expect(run(operation, { retries: 2 })).rejects.toThrow();
+
+    expect(delays()).toEqual([500, 1000, 1000, 2000]);
+  });
+
+  it('waits as long as a Retry-After header in seconds says', async () => {
+    const operation = jest.fn().mockRejectedValueOnce(httpError(429, { 'Retry-After': '7' })).mockResolvedValue('ok');
+
+    expect(await run(operation)).toBe('ok');
+    expect(delays()).toEqual([7000]);
+  });
+
+  it('waits until the date of a Retry-After header', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(httpError(503, { 'Retry-After': 'Mon, 03 Jun 2024 10:00:12 GMT' }))
+      .mockResolvedValue('ok');
+
+    expect(await run(operation)).toBe('ok');
+    expect(delays()).toEqual([12000]);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const operation = jest.fn().mockRejectedValue(httpError(429));
+
+    await expect(run(operation)).rejects.toThrow('Request failed with 429');
+    expect(operation).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not retry other errors', async () => {
+    const operation = jest.fn().mockRejectedValue(httpError(404));
+
+    await expect(run(operation)).rejects.toThrow('Request failed with 404');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isRetryableError', () => {
+  it.each([
+    ['a network error', Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })],
+    ['a network error wrapped by fetch', new TypeError('fetch failed')],
+    ['a Pinecone 429 reported in the message', new Error('Request failed. Status: 429. Message: too many requests')],
+    ['a Pinecone unavailable error', Object.assign(new Error('unavailable'), { name: 'PineconeUnavailableError' })],
+  ])('retries %s', (_, error) => {
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  it.each([
+    ['a bad request', httpError(400)],
+    ['an authorization failure', httpError(403)],
+    ['a programming error', new TypeError('Cannot read properties of undefined')],
+  ])('does not retry %s', (_, error) => {
+    expect(isRetryableError(error)).toBe(false);
+  });
+});
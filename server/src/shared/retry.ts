@@ -0,0 +1,86 @@
+import { config } from './config';
+import { logger } from './logger';
+
+export interface RetryOptions {
+  /** Used in log messages, e.g. "download Policy.pdf" */
+  label: string;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET']);
+const RETRYABLE_NAMES = new Set(['PineconeConnectionError', 'PineconeInternalServerError', 'PineconeUnavailableError']);
+
+function getStatus(error: any): number | undefined {
+  if (typeof error?.status === 'number') return error.status;
+  if (typeof error?.response?.status === 'number') return error.response.status;
+
+  // Pinecone maps 429 to PineconeUnmappedHttpError and only reports the status in the message
+  const match = typeof error?.message === 'string' ? error.message.match(/Status: (\d{3})/) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Reads a Retry-After header (seconds or HTTP date) from a SharePoint
+ * HttpRequestError or any error carrying a fetch-style response.
+ */
+function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.response?.headers;
+  const value: string | null | undefined = typeof headers?.get === 'function'
+    ? headers.get('retry-after')
+    : headers?.['retry-after'];
+
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isRetryableError(error: any): boolean {
+  const status = getStatus(error);
+  if (status !== undefined) return RETRYABLE_STATUS.has(status);
+
+  return RETRYABLE_CODES.has(error?.code)
+    || RETRYABLE_CODES.has(error?.cause?.code)
+    || RETRYABLE_NAMES.has(error?.name)
+    || (error instanceof TypeError && error.message === 'fetch failed');
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs an operation with exponential backoff on throttling (429), transient
+ * server errors and network failures. A Retry-After header, as sent by
+ * SharePoint when throttling, takes precedence over the computed delay.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const retries = options.retries ?? config.crawler.maxRetries;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 60000;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      // Jitter (half the backoff plus a random half) keeps concurrent workers from retrying in lockstep
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = getRetryAfterMs(error) ?? Math.round(backoff / 2 + Math.random() * (backoff / 2));
+
+      logger.warn(`Retrying ${options.label} in ${delay}ms (attempt ${attempt + 1}/${retries})`, {
+        status: getStatus(error),
+        error: error instanceof Error ? error.message : error,
+      });
+
+      await sleep(delay);
+    }
+  }
+}
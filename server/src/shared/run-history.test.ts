@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CrawlRunHistory } from './run-history';
+import { CrawlRun } from './types';
+
+jest.mock('./config', () => ({ config: { crawler: { stateDir: 'data', runHistoryLimit: 3 } } }));
+jest.mock('./logger', () => ({ logger: { warn: jest.fn() } }));
+
+/** A run started on the given day of June 2024, with a UUID ending in that day */
+function run(day: number, overrides: Partial<CrawlRun> = {}): CrawlRun {
+  return {
+    id: `3f2504e0-4f89-11d3-9a0c-0305e82c33${String(day).padStart(2, '0')}`,
+    trigger: 'schedule',
+    status: 'completed',
+    full: false,
+    startTime: new Date(Date.UTC(2024, 5, day, 2)),
+    documentsProcessed: 10,
+    documentsSkipped: 1,
+    documentsUnchanged: 100,
+    documentsDeleted: 0,
+    errors: [{ filename: 'Broken.pdf', error: 'Invalid PDF structure', timestamp: new Date(Date.UTC(2024, 5, day, 2, 5)) }],
+    ...overrides,
+  };
+}
+
+describe('CrawlRunHistory', () => {
+  let dir: string;
+  let history: CrawlRunHistory;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'runs-'));
+    history = new CrawlRunHistory(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('is empty before the first run', async () => {
+    expect(await new CrawlRunHistory(path.join(dir, 'missing')).list()).toEqual([]);
+  });
+
+  it('saves a run and reads it back with its errors', async () => {
+    await history.save(run(1));
+    await history.save(run(1, { status: 'failed', error: 'Pinecone unavailable' }));
+
+    expect(JSON.parse(JSON.stringify(await history.get(run(1).id)))).toEqual(
+      JSON.parse(JSON.stringify(run(1, { status: 'failed', error: 'Pinecone unavailable' })))
+    );
+  });
+
+  it('does not read ids that are not UUIDs', async () => {
+    await fs.writeFile(path.join(dir, 'secret.json'), '{}');
+
+    expect(await history.get('../runs/secret')).toBeNull();
+    expect(await history.get('secret')).toBeNull();
+  });
+
+  it('lists runs newest first, with an error count instead of the errors', async () => {
+    await history.save(run(2));
+    await history.save(run(5));
+    await history.save(run(3));
+
+    const runs = await history.list();
+
+    expect(runs.map((summary) => summary.id)).toEqual([run(5).id, run(3).id, run(2).id]);
+    expect(runs[0].errorCount).toBe(1);
+    expect(runs[0]).not.toHaveProperty('errors');
+    expect((await history.list(2)).map((summary) => summary.id)).toEqual([run(5).id, run(3).id]);
+  });
+
+  it('skips unreadable run files', async () => {
+    await history.save(run(1));
+    await fs.writeFile(path.join(dir, 'truncated.json'), '{"id":');
+
+    expect((await history.list()).map((summary) => summary.id)).toEqual([run(1).id]);
+  });
+
+  it('marks runs left running by a crawler that died as interrupted', async () => {
+    await history.save(run(1, { status: 'running' }));
+    await history.save(run(2, { status: 'completed' }));
+    await history.save(run(3, { status: 'running' }));
+
+    await history.markInterrupted(run(3).id);
+
+    expect((await history.list()).map((summary) => summary.status)).toEqual(['running', 'completed', 'interrupted']);
+  });
+
+  it('deletes the oldest runs beyond the history limit', async () => {
+    for (const day of [4, 1, 5, 2, 3]) await history.save(run(day));
+
+    await history.prune();
+
+    expect((await history.list()).map((summary) => summary.id)).toEqual([run(5).id, run(4).id, run(3).id]);
+    expect(await history.get(run(1).id)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from './config';
+import { logger } from './logger';
+import { deleteJsonFile, readJsonFile, writeJsonFile } from './json-file';
+import { CrawlRun, CrawlRunSummary } from './types';
+
+// Run ids are UUIDs; anything else must never reach the file system
+const RUN_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+/**
+ * Crawl runs stored as one JSON file each under `<stateDir>/runs`. Written by
+ * the crawler and read by the API, which share the state directory.
+ */
+export class CrawlRunHistory {
+  private dir: string;
+
+  constructor(dir: string = path.join(config.crawler.stateDir, 'runs')) {
+    this.dir = dir;
+  }
+
+  async save(run: CrawlRun): Promise<void> {
+    await writeJsonFile(this.runPath(run.id), run);
+  }
+
+  async get(id: string): Promise<CrawlRun | null> {
+    if (!RUN_ID_PATTERN.test(id)) return null;
+    return readJsonFile<CrawlRun>(this.runPath(id));
+  }
+
+  /**
+   * Runs newest first, without their per-document error lists.
+   */
+  async list(limit?: number): Promise<CrawlRunSummary[]> {
+    const runs = await this.readAll();
+    return runs.slice(0, limit).map(({ errors, ...run }) => ({ ...run, errorCount: errors.length }));
+  }
+
+  /**
+   * Marks runs left in `running` by a crawler that died as interrupted.
+   * Only one crawl runs at a time, so any such run other than the current
+   * one is stale.
+   */
+  async markInterrupted(currentRunId: string): Promise<void> {
+    for (const run of await this.readAll()) {
+      if (run.status === 'running' && run.id !== currentRunId) {
+        await this.save({ ...run, status: 'interrupted' });
+      }
+    }
+  }
+
+  /**
+   * Deletes the oldest runs beyond `CRAWLER_RUN_HISTORY_LIMIT`.
+   */
+  async prune(): Promise<void> {
+    const runs = await this.readAll();
+    for (const run of runs.slice(config.crawler.runHistoryLimit)) {
+      await deleteJsonFile(this.runPath(run.id));
+    }
+  }
+
+  private async readAll(): Promise<CrawlRun[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const runs: CrawlRun[] = [];
+    for (const file of files.filter((name) => name.endsWith('.json'))) {
+      try {
+        const run = await readJsonFile<CrawlRun>(path.join(this.dir, file));
+        if (run) runs.push(run);
+      } catch (error) {
+        logger.warn(`Skipping unreadable crawl run file ${file}`, {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    return runs.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+  }
+
+  private runPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
@@ -1,17 +1,58 @@
+/** Value of a configured list column as stored in chunk metadata */
+export type ColumnValue = string | number | boolean | string[];
+
 export interface DocumentMetadata {
   id: string;
+  itemId?: number;
+  sourceId: string;
   filename: string;
   url: string;
   path: string;
   modified: Date;
   size: number;
   contentType: string;
+  site: string;
   library: string;
+  principals?: string[];
+  /** Page title for site pages; otherwise the title stored in the document, if any */
+  title?: string;
+  /** Author stored in the document (Word 97-2003 and RTF) */
+  author?: string;
+  /** Version label of the indexed version, e.g. "3.0" */
+  version?: string;
+  /** SharePoint version to download instead of the current file */
+  versionId?: number;
+  /**
+   * No published version is available (e.g. a published file was unpublished);
+   * the crawler keeps serving whatever version it indexed before
+   */
+  unpublished?: boolean;
+  /** Configured list columns, keyed by column name */
+  columns?: Record<string, ColumnValue>;
+  /** URLs of near-duplicate copies indexed under this document */
+  alternateUrls?: string[];
+}
+
+export interface DeletedDocument {
+  id?: string;
+  itemId?: number;
+}
+
+export interface DocumentChanges {
+  upserted: DocumentMetadata[];
+  deleted: DeletedDocument[];
+  requiresFullCrawl: boolean;
 }
 
 export interface ProcessedDocument {
   metadata: DocumentMetadata;
   content: string;
+  /** For paged formats (PDF): offset in content where each page starts, page 1 first */
+  pageOffsets?: number[];
+  /** OCR confidence (0-100) of each page recognised from images, aligned with pageOffsets */
+  ocrConfidence?: (number | undefined)[];
+  /** Characters of running headers, footers, page numbers and tables of contents removed */
+  boilerplateRemoved: number;
   chunks: DocumentChunk[];
 }
 
@@ -20,17 +61,41 @@ export interface DocumentChunk {
   metadata: ChunkMetadata;
 }
 
+/**
+ * Metadata stored with every vector. The document's configured list columns
+ * are added alongside these keys (see ColumnValue).
+ */
 export interface ChunkMetadata {
   documentId: string;
+  sourceId: string;
+  site: string;
+  library: string;
   filename: string;
   url: string;
+  title?: string;
+  author?: string;
+  version?: string;
+  /** Pages the chunk spans, for paged formats (PDF) */
+  pageStart?: number;
+  pageEnd?: number;
+  /** Headings the chunk is under, e.g. "Travel Policy > Reimbursement > Per diem" */
+  headingPath?: string;
+  /** The chunk is (part of) a table, as Markdown with its header row */
+  table?: boolean;
+  /** Lowest OCR confidence (0-100) of the pages the chunk spans; only set for text recognised by OCR */
+  ocrConfidence?: number;
+  /** URLs of near-duplicate copies of the document, which have no vectors of their own */
+  alternateUrls?: string[];
   chunkIndex: number;
   totalChunks: number;
+  principals?: string[];
 }
 
 export interface QueryRequest {
   query: string;
   topK?: number;
+  /** Metadata filter on columns, e.g. { "Department": "Finance", "Modified": { "$gte": "2025-01-01" } } */
+  filter?: Record<string, unknown>;
 }
 
 export interface QueryResponse {
@@ -40,18 +105,71 @@ export interface QueryResponse {
 
 export interface SourceDocument {
   filename: string;
+  title?: string;
+  author?: string;
   url: string;
+  pageStart?: number;
+  pageEnd?: number;
+  headingPath?: string;
+  table?: boolean;
+  ocrConfidence?: number;
+  alternateUrls?: string[];
   content: string;
   score: number;
 }
 
+export interface ManifestEntry {
+  id: string;
+  itemId?: number;
+  sourceId: string;
+  filename: string;
+  url: string;
+  path: string;
+  modified: string;
+  size: number;
+  contentHash: string;
+  chunkCount: number;
+  principals?: string[];
+  columns?: Record<string, ColumnValue>;
+  version?: string;
+  /** MinHash signature of the extracted text (see crawler/fingerprint.ts) */
+  fingerprint?: string;
+  /** Set on near-duplicates: the document indexed in their place. They have no chunks */
+  canonicalId?: string;
+  /** Set on canonical documents: the URLs of their near-duplicates, as stored on their chunks */
+  alternateUrls?: string[];
+  /** DEDUP_ENABLED when the document was indexed */
+  deduplicated?: boolean;
+  indexedAt: string;
+}
+
+/** An indexed document and the near-duplicate copies grouped under it */
+export interface DuplicateCluster {
+  canonical: DuplicateDocument;
+  duplicates: (DuplicateDocument & { similarity: number })[];
+}
+
+export interface DuplicateDocument {
+  id: string;
+  sourceId: string;
+  filename: string;
+  url: string;
+  modified: string;
+}
+
 export interface CrawlResult {
   documentsProcessed: number;
   documentsSkipped: number;
+  documentsUnchanged: number;
+  documentsDeleted: number;
   errors: CrawlError[];
   startTime: Date;
   endTime: Date;
   duration: number;
+  /** Stopped on request before all documents were handled */
+  cancelled?: boolean;
+  /** Stopped because the process is shutting down; the next run resumes it */
+  interrupted?: boolean;
 }
 
 export interface CrawlError {
@@ -60,6 +178,29 @@ export interface CrawlError {
   timestamp: Date;
 }
 
+export type CrawlTrigger = 'manual' | 'schedule' | 'startup' | 'cli';
+
+export type CrawlRunStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+/**
+ * A crawl run as kept in the run history. Written when the run starts and
+ * updated as it progresses, so a crashed run is still visible.
+ */
+export interface CrawlRun extends Omit<CrawlResult, 'endTime' | 'duration' | 'cancelled' | 'interrupted'> {
+  id: string;
+  trigger: CrawlTrigger;
+  status: CrawlRunStatus;
+  full: boolean;
+  /** Source ids the run was limited to; all configured sources when absent */
+  sources?: string[];
+  endTime?: Date;
+  duration?: number;
+  /** Why the run as a whole failed, as opposed to per-document errors */
+  error?: string;
+}
+
+export type CrawlRunSummary = Omit<CrawlRun, 'errors'> & { errorCount: number };
+
 export interface IndexStats {
   totalDocuments: number;
   totalChunks: number;
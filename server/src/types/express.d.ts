@@ -0,0 +1,10 @@
+declare global {
+  namespace Express {
+    interface Request {
+      // Principals (`user:<upn>`, `group:<id>`, `everyone`, `everyone-except-external`) the caller can read as, set by resolveUserPrincipals
+      userPrincipals?: string[];
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,17 @@
+// The pdf.js build bundled with pdf-parse; only what the PDF extractor uses
+declare module 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js' {
+  interface PDFJSStatic {
+    /** Parse in the calling thread; Node has no web workers */
+    disableWorker: boolean;
+    /** Operator codes of page operator lists */
+    OPS: Record<string, number>;
+    getDocument(source: {
+      data: Uint8Array;
+      /** `none` decodes JPEG images in pdf.js instead of leaving them to a browser */
+      nativeImageDecoderSupport?: 'decode' | 'display' | 'none';
+    }): PromiseLike<any>;
+  }
+
+  const PDFJS: PDFJSStatic;
+  export = PDFJS;
+}
@@ -0,0 +1,11 @@
+declare module 'utif' {
+  /** An image file directory: one page of a TIFF file */
+  export interface IFD {
+    width: number;
+    height: number;
+    [tag: string]: any;
+  }
+  export function decode(buffer: ArrayBuffer | Uint8Array): IFD[];
+  export function decodeImage(buffer: ArrayBuffer | Uint8Array, ifd: IFD, ifds?: IFD[]): void;
+  export function toRGBA8(ifd: IFD): Uint8Array;
+}
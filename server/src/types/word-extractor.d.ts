@@ -0,0 +1,21 @@
+declare module 'word-extractor' {
+  interface TextOptions {
+    /** Replace curly quotes, dashes and wide spaces with ASCII (default true) */
+    filterUnicode?: boolean;
+  }
+
+  export interface Document {
+    getBody(options?: TextOptions): string;
+    getFootnotes(options?: TextOptions): string;
+    getEndnotes(options?: TextOptions): string;
+    getHeaders(options?: TextOptions & { includeFooters?: boolean }): string;
+    getFooters(options?: TextOptions): string;
+    getAnnotations(options?: TextOptions): string;
+    getTextboxes(options?: TextOptions & { includeHeadersAndFooters?: boolean; includeBody?: boolean }): string;
+  }
+
+  export default class WordExtractor {
+    /** Reads a .doc (or .docx) file from a path or buffer */
+    extract(source: string | Buffer): Promise<Document>;
+  }
+}
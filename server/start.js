@@ -8,28 +8,19 @@ function spawnProc(cmd, args) {
   return p;
 }
 
-const crawler = spawnProc('node', ['dist/crawler/index.js']);
+// Crawls are started by the API's scheduler (including the one on startup,
+// see SCHEDULER_RUN_ON_STARTUP), so only the API is supervised here
 const api = spawnProc('node', ['dist/api/server.js']);
 
+// The API stops a running crawl before it exits, so wait for it instead of exiting here
 function shutdown() {
-  try { crawler.kill('SIGTERM'); } catch (e) {}
   try { api.kill('SIGTERM'); } catch (e) {}
 }
 
-process.on('SIGINT', () => { shutdown(); process.exit(0); });
-process.on('SIGTERM', () => { shutdown(); process.exit(0); });
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 // API exit drives the container lifecycle
 api.on('exit', (code) => {
-  shutdown();
   process.exit(code ?? 0);
 });
-
-// Crawler is a one-shot job — log its result but keep the API alive
-crawler.on('exit', (code) => {
-  if (code === 0) {
-    console.log('[supervisor] Crawler completed successfully');
-  } else {
-    console.error(`[supervisor] Crawler exited with code ${code}`);
-  }
-});